@@ -0,0 +1,213 @@
+/**
+ * Exhaustive check of the hand evaluator against a reference enumeration
+ * The reference scores every 5-card hand with a plain sort-and-group
+ * evaluator, and a 6- or 7-card hand as the best of its 5-card subsets. Every
+ * 5-, 6- and 7-card hand is then ranked with rankCodes and compared, and
+ * evaluateHand (ranking, tie-break vector, best five cards) is checked on
+ * every 5-card hand and on a spread of 7-card hands.
+ *
+ * Run with `npm run check:hands` (about a minute).
+ */
+
+import { compareHands, evaluateHand } from '../src/utils/handEvaluator';
+import { decodeCard, rankCodes } from '../src/utils/handRank';
+import type { HandRanking } from '../src/types';
+
+// Reference categories, weakest first
+const REFERENCE_CATEGORIES: HandRanking[] = [
+  'high-card',
+  'pair',
+  'two-pair',
+  'three-of-a-kind',
+  'straight',
+  'flush',
+  'full-house',
+  'four-of-a-kind',
+  'straight-flush',
+];
+
+const CATEGORY_SHIFT = 1 << 20;
+const SEVEN_CARD_SAMPLE = 997; // Check evaluateHand on one in this many 7-card hands
+
+// BINOMIAL[n][k] = n choose k, for colex indexes of card combinations
+const BINOMIAL = Array.from({ length: 53 }, (_, n) =>
+  Array.from({ length: 8 }, (_, k) => {
+    let result = 1;
+    for (let i = 0; i < k; i++) result = (result * (n - i)) / (i + 1);
+    return k > n ? 0 : Math.round(result);
+  })
+);
+
+let failures = 0;
+
+function fail(message: string): void {
+  failures++;
+  if (failures <= 20) console.error(`MISMATCH ${message}`);
+}
+
+/**
+ * Reference rank of a 5-card hand, packed like handRank.ts: category * 2^20
+ * plus up to five 4-bit rank indexes in tie-break order
+ */
+function referenceRank(codes: number[]): number {
+  const ranks = codes.map(code => code >> 2);
+  const isFlush = codes.every(code => (code & 3) === (codes[0] & 3));
+
+  const counts = new Map<number, number>();
+  ranks.forEach(rank => counts.set(rank, (counts.get(rank) ?? 0) + 1));
+  // Biggest groups first, higher ranks first within a group size
+  const groups = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+  const groupRanks = groups.map(([rank]) => rank);
+  const sizes = groups.map(([, count]) => count).join('');
+
+  const distinct = [...counts.keys()].sort((a, b) => b - a);
+  let straightHigh = -1;
+  if (distinct.length === 5) {
+    if (distinct[0] - distinct[4] === 4) straightHigh = distinct[0];
+    else if (distinct.join() === '12,3,2,1,0') straightHigh = 3; // A-2-3-4-5 is five high
+  }
+
+  let category: HandRanking;
+  let tieBreak: number[];
+  if (straightHigh >= 0 && isFlush) [category, tieBreak] = ['straight-flush', [straightHigh]];
+  else if (sizes === '41') [category, tieBreak] = ['four-of-a-kind', groupRanks];
+  else if (sizes === '32') [category, tieBreak] = ['full-house', groupRanks];
+  else if (isFlush) [category, tieBreak] = ['flush', groupRanks];
+  else if (straightHigh >= 0) [category, tieBreak] = ['straight', [straightHigh]];
+  else if (sizes === '311') [category, tieBreak] = ['three-of-a-kind', groupRanks];
+  else if (sizes === '221') [category, tieBreak] = ['two-pair', groupRanks];
+  else if (sizes === '2111') [category, tieBreak] = ['pair', groupRanks];
+  else [category, tieBreak] = ['high-card', groupRanks];
+
+  return tieBreak.reduce(
+    (value, rank, i) => value + (rank << (16 - i * 4)),
+    REFERENCE_CATEGORIES.indexOf(category) * CATEGORY_SHIFT
+  );
+}
+
+/** Colex index of a sorted combination, skipping one position (-1 skips none) */
+function comboIndex(codes: ArrayLike<number>, length: number, skip: number = -1): number {
+  let index = 0;
+  let slot = 0;
+  for (let i = 0; i < length; i++) {
+    if (i === skip) continue;
+    slot++;
+    index += BINOMIAL[codes[i]][slot];
+  }
+  return index;
+}
+
+/**
+ * Check evaluateHand's readable view against the reference rank
+ */
+function checkEvaluation(codes: number[], expected: number): void {
+  const cards = codes.map(decodeCard);
+  const evaluation = evaluateHand(cards);
+  const label = cards.map(c => c.rank + c.suit[0]).join(' ');
+
+  const category = Math.floor(expected / CATEGORY_SHIFT);
+  const tieBreakRanks = [0, 1, 2, 3, 4]
+    .map(i => (expected >> (16 - i * 4)) & 0xf)
+    .slice(0, evaluation.tieBreak.length);
+  const ranking =
+    REFERENCE_CATEGORIES[category] === 'straight-flush' && tieBreakRanks[0] === 12
+      ? 'royal-flush'
+      : REFERENCE_CATEGORIES[category];
+
+  if (evaluation.value !== expected) fail(`value of ${label}`);
+  if (evaluation.ranking !== ranking) fail(`ranking of ${label}: ${evaluation.ranking}, expected ${ranking}`);
+  if (evaluation.tieBreak.join() !== tieBreakRanks.map(rank => rank + 2).join()) {
+    fail(`tie-break of ${label}: ${evaluation.tieBreak.join()}`);
+  }
+  if (
+    evaluation.cards.length !== 5 ||
+    evaluation.cards.some(card => !cards.includes(card)) ||
+    evaluateHand(evaluation.cards).value !== expected
+  ) {
+    fail(`best five cards of ${label}`);
+  }
+  if (compareHands(evaluation, evaluation) !== 0) fail(`${label} does not tie itself`);
+}
+
+const started = Date.now();
+const codes = new Int32Array(7);
+
+// Every 5-card hand: the reference table, rankCodes and evaluateHand
+const fiveCardRanks = new Int32Array(BINOMIAL[52][5]);
+for (codes[4] = 4; codes[4] < 52; codes[4]++)
+for (codes[3] = 3; codes[3] < codes[4]; codes[3]++)
+for (codes[2] = 2; codes[2] < codes[3]; codes[2]++)
+for (codes[1] = 1; codes[1] < codes[2]; codes[1]++)
+for (codes[0] = 0; codes[0] < codes[1]; codes[0]++) {
+  const hand = Array.from(codes.subarray(0, 5));
+  const expected = referenceRank(hand);
+  fiveCardRanks[comboIndex(codes, 5)] = expected;
+  if (rankCodes(codes, 5) !== expected) fail(`rankCodes of 5 cards ${hand.join()}`);
+  checkEvaluation(hand, expected);
+}
+console.log(`5 cards: ${fiveCardRanks.length} hands checked`);
+
+// Every 6-card hand: best of its six 5-card subsets
+const sixCardRanks = new Int32Array(BINOMIAL[52][6]);
+for (codes[5] = 5; codes[5] < 52; codes[5]++)
+for (codes[4] = 4; codes[4] < codes[5]; codes[4]++)
+for (codes[3] = 3; codes[3] < codes[4]; codes[3]++)
+for (codes[2] = 2; codes[2] < codes[3]; codes[2]++)
+for (codes[1] = 1; codes[1] < codes[2]; codes[1]++)
+for (codes[0] = 0; codes[0] < codes[1]; codes[0]++) {
+  let expected = 0;
+  for (let skip = 0; skip < 6; skip++) {
+    expected = Math.max(expected, fiveCardRanks[comboIndex(codes, 6, skip)]);
+  }
+  sixCardRanks[comboIndex(codes, 6)] = expected;
+  if (rankCodes(codes, 6) !== expected) fail(`rankCodes of 6 cards ${Array.from(codes.subarray(0, 6)).join()}`);
+}
+console.log(`6 cards: ${sixCardRanks.length} hands checked`);
+
+// Every 7-card hand: best of its seven 6-card subsets
+let sevenCardHands = 0;
+for (codes[6] = 6; codes[6] < 52; codes[6]++)
+for (codes[5] = 5; codes[5] < codes[6]; codes[5]++)
+for (codes[4] = 4; codes[4] < codes[5]; codes[4]++)
+for (codes[3] = 3; codes[3] < codes[4]; codes[3]++)
+for (codes[2] = 2; codes[2] < codes[3]; codes[2]++)
+for (codes[1] = 1; codes[1] < codes[2]; codes[1]++)
+for (codes[0] = 0; codes[0] < codes[1]; codes[0]++) {
+  // Leaving out card k keeps the slots of the cards before it and moves the rest down one
+  let below = 0;
+  let above = 0;
+  for (let i = 1; i < 7; i++) above += BINOMIAL[codes[i]][i];
+  let expected = 0;
+  for (let skip = 0; skip < 7; skip++) {
+    expected = Math.max(expected, sixCardRanks[below + above]);
+    below += BINOMIAL[codes[skip]][skip + 1];
+    if (skip < 6) above -= BINOMIAL[codes[skip + 1]][skip + 1];
+  }
+  if (rankCodes(codes, 7) !== expected) fail(`rankCodes of 7 cards ${Array.from(codes).join()}`);
+  if (sevenCardHands++ % SEVEN_CARD_SAMPLE === 0) checkEvaluation(Array.from(codes), expected);
+}
+console.log(`7 cards: ${sevenCardHands} hands checked`);
+
+// Spot checks of the tie-break rules split pots depend on
+const hand = (text: string) =>
+  evaluateHand(
+    text.split(' ').map(card => ({
+      rank: card[0] as ReturnType<typeof decodeCard>['rank'],
+      suit: ({ h: 'hearts', d: 'diamonds', c: 'clubs', s: 'spades' } as const)[card[1] as 'h'],
+    }))
+  );
+const expectations: [string, string, number][] = [
+  ['Ah 2d 3c 4s 5h Kd Qc', '2h 3d 4c 5s 6h Kd Qc', -1], // Wheel loses to a six-high straight
+  ['9h 9d 9c 9s Ah 2d 3c', '9h 9d 9c 9s Kh Qd Jc', 1], // Quads kicker
+  ['Kh Kd Kc 7s 7h 2d 3c', 'Kh Kd Kc 5s 5h Ad Qc', 1], // Full house: trips then pair
+  ['Qh Qd 8c 8s Ah 2d 3c', 'Qh Qd 8c 8s Kh Jd 3c', 1], // Two pair kicker
+  ['Ah Kh Qh Jh 9h 2d 3c', 'Ad Kd Qd Jd 9d 4s 5s', 0], // Same flush, different suits
+  ['Ah 2h 3h 4h 5h Kd Qc', '2s 3s 4s 5s 6s Kd Qc', -1], // Wheel straight flush is five high
+  ['Ah Ad Kc Qs Jh 3d 2c', 'As Ac Kd Qh Jc 4s 2d', 0], // Unused sixth and seventh cards
+];
+for (const [first, second, result] of expectations) {
+  if (compareHands(hand(first), hand(second)) !== result) fail(`compareHands(${first}, ${second})`);
+}
+
+console.log(`${failures} mismatches in ${((Date.now() - started) / 1000).toFixed(0)}s`);
+if (failures > 0) process.exit(1);
@@ -2,27 +2,117 @@
  * Main App component - Poker Trainer Game
  */
 
-import { useGameState } from './hooks';
-import { PokerTable, ActionControls, ActionLog, ActionNotification } from './components/game';
-import type { BetAction } from './types';
-import { canCheck } from './utils/pokerLogic';
+import { useMemo, useState } from 'react';
+import { useCoach, useGameState } from './hooks';
+import {
+  PokerTable,
+  ActionControls,
+  ActionLog,
+  ActionNotification,
+  SeedControls,
+  TableSetup,
+  OddsPanel,
+  TournamentStandings,
+  HeroHud,
+} from './components/game';
+import { CoachAnalysis } from './components/coach';
+import { RangeEditor } from './components/range';
+import { ProfileEditor } from './components/profiles';
+import type { BetAction, PlayerPosition, TableConfig } from './types';
+import { getLegalActions } from './utils/pokerLogic';
+import { calculateStackImpliedOdds } from './utils/impliedOdds';
+import { describeHeroReads } from './services/ai';
+import {
+  formatBlindLevel,
+  getHandsLeftInLevel,
+  getMinutesLeftInLevel,
+} from './utils/blindStructures';
 
 function App() {
-  const { gameState, startNewHand, handlePlayerAction, isHeroTurn } = useGameState();
+  const {
+    gameState,
+    startNewHand,
+    startSession,
+    rebuy,
+    handlePlayerAction,
+    isHeroTurn,
+    handResult,
+    sessionStats,
+    heroHud,
+    sessionSeed,
+    tableConfig,
+    standing,
+    minutesPlayed,
+    getHandHistory,
+  } = useGameState();
+  const { analysis, isLoading, error: coachError, requestAnalysis, clearAnalysis } = useCoach();
+
+  const [showRangeEditor, setShowRangeEditor] = useState(false);
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
 
   const heroPlayer = gameState.players.find(p => p.position === 'hero');
 
-  // Game flow handlers
+  // Implied odds for a draw facing a bet, shown with the action buttons
+  const impliedOdds = useMemo(() => {
+    const heroIndex = gameState.players.findIndex(p => p.position === 'hero');
+    return isHeroTurn && heroIndex >= 0 ? calculateStackImpliedOdds(gameState, heroIndex) : null;
+  }, [gameState, isHeroTurn]);
+
+  // What the opponents put the hero on, shown once the hand is over
+  const heroReads = useMemo(
+    () => (gameState.phase === 'showdown' ? describeHeroReads(gameState) : []),
+    [gameState]
+  );
+
+  const getPlayerName = (position: PlayerPosition): string =>
+    gameState.players.find(p => p.position === position)?.name ?? position;
+
+  // Game flow handlers; the coach's analysis belongs to the hand just played
+  const dealHand = (seed?: number) => {
+    clearAnalysis();
+    startNewHand(seed);
+  };
+
+  const newSession = (config: TableConfig, seed?: number) => {
+    clearAnalysis();
+    startSession(config, seed);
+  };
+
   const handleStartHand = () => {
-    startNewHand();
+    dealHand();
+  };
+
+  const handleGetCoachInsights = () => {
+    const handHistory = getHandHistory();
+    if (handHistory) requestAnalysis(handHistory);
   };
 
   const handleAction = (action: BetAction) => {
     handlePlayerAction(action);
   };
 
+  // A tournament is over for the hero once they are knocked out or have won
+  const heroFinish = standing?.finishes.find(f => f.player === 'hero');
+  const tournamentOver = !!heroFinish || !!standing?.finishes.some(f => f.place === 1);
+
+  // A broke hero has to rebuy before the next cash hand unless auto top-up covers it
+  const heroNeedsRebuy =
+    tableConfig.mode === 'cash' && heroPlayer?.stack === 0 && !tableConfig.autoTopUp;
+  const rebuyAmount = tableConfig.maxBuyIn * gameState.bigBlind;
+
+  // Number of hands (or minutes, as of the last deal) until the next blind level
+  const handsLeftInLevel = getHandsLeftInLevel(tableConfig.blinds, gameState.handNumber);
+  const minutesLeftInLevel = getMinutesLeftInLevel(tableConfig.blinds, minutesPlayed);
+
   // Check if game is in a phase where we can start a new hand
-  const canStartNewHand = gameState.phase === 'waiting' || gameState.phase === 'showdown';
+  const canStartNewHand =
+    (gameState.phase === 'waiting' || gameState.phase === 'showdown') &&
+    !heroNeedsRebuy &&
+    !tournamentOver;
+
+  const handleNewTournament = () => {
+    newSession(tableConfig);
+  };
 
   return (
     <div className="min-h-screen bg-gray-900 text-white p-4">
@@ -47,10 +137,58 @@ function App() {
                 <span className="text-gray-400">Betting Round:</span>
                 <span className="font-semibold capitalize">{gameState.bettingRound}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Blinds:</span>
+                <span className="font-semibold">{formatBlindLevel(gameState)}</span>
+              </div>
+              {minutesLeftInLevel !== null && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Blinds Up In:</span>
+                  <span className="font-semibold">~{Math.ceil(minutesLeftInLevel)} min</span>
+                </div>
+              )}
+              {handsLeftInLevel !== null && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Blinds Up In:</span>
+                  <span className="font-semibold">
+                    {handsLeftInLevel} hand{handsLeftInLevel === 1 ? '' : 's'}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-gray-400">Current Bet:</span>
                 <span className="font-semibold text-yellow-400">${gameState.currentBet}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Hands Played:</span>
+                <span className="font-semibold">{sessionStats.handsPlayed}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Hands Won:</span>
+                <span className="font-semibold">{sessionStats.handsWon}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Session Profit:</span>
+                <span
+                  className={`font-semibold ${
+                    sessionStats.totalProfit >= 0 ? 'text-green-400' : 'text-red-400'
+                  }`}
+                >
+                  {sessionStats.totalProfit >= 0 ? '+' : '-'}${Math.abs(sessionStats.totalProfit)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Rebuys:</span>
+                <span className="font-semibold">{sessionStats.rebuys}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Chips Added:</span>
+                <span className="font-semibold">${sessionStats.chipsAdded}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Opponents Busted:</span>
+                <span className="font-semibold">{sessionStats.opponentsBusted}</span>
+              </div>
             </div>
 
             {/* Player Info */}
@@ -66,6 +204,32 @@ function App() {
               </div>
             )}
 
+            {standing && <TournamentStandings standing={standing} />}
+
+            <HeroHud counts={heroHud} showExploits={tableConfig.adaptiveOpponent} />
+
+            <SeedControls
+              sessionSeed={sessionSeed}
+              handSeed={gameState.handSeed}
+              canDeal={canStartNewHand}
+              onDealSeed={seed => dealHand(seed)}
+              onStartSession={seed => newSession(tableConfig, seed)}
+            />
+
+            <button
+              onClick={() => setShowRangeEditor(show => !show)}
+              className="mt-6 w-full bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              {showRangeEditor ? 'Hide Range Editor' : 'Range Editor'}
+            </button>
+
+            <button
+              onClick={() => setShowProfileEditor(show => !show)}
+              className="mt-2 w-full bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              {showProfileEditor ? 'Hide Opponent Profiles' : 'Opponent Profiles'}
+            </button>
+
             {/* Game Controls */}
             <div className="mt-6">
               {canStartNewHand && (
@@ -76,6 +240,22 @@ function App() {
                   {gameState.phase === 'waiting' ? 'Start Hand' : 'Next Hand'}
                 </button>
               )}
+              {heroNeedsRebuy && gameState.phase !== 'betting' && (
+                <button
+                  onClick={rebuy}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                >
+                  Rebuy (${rebuyAmount})
+                </button>
+              )}
+              {tournamentOver && (
+                <button
+                  onClick={handleNewTournament}
+                  className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                >
+                  New Tournament
+                </button>
+              )}
             </div>
           </aside>
 
@@ -87,6 +267,7 @@ function App() {
                   <p className="text-gray-400 text-lg mb-4">
                     Ready to play?
                   </p>
+                  <TableSetup config={tableConfig} onChange={config => newSession(config)} />
                   <button
                     onClick={handleStartHand}
                     className="bg-green-600 hover:bg-green-700 text-white font-bold py-4 px-8 rounded-lg text-xl transition-colors"
@@ -106,11 +287,11 @@ function App() {
                   currentBet={gameState.currentBet}
                   playerStack={heroPlayer.stack}
                   pot={gameState.pot}
-                  minRaise={gameState.minRaise}
-                  canCheck={canCheck(heroPlayer, gameState.currentBet)}
+                  legalActions={getLegalActions(gameState)}
                   onAction={handleAction}
                   bigBlind={gameState.bigBlind}
                   isPreFlop={gameState.bettingRound === 'preflop'}
+                  impliedOdds={impliedOdds}
                 />
               </div>
             )}
@@ -131,25 +312,102 @@ function App() {
               </div>
             )}
 
+            {showRangeEditor && (
+              <div className="mt-4">
+                <RangeEditor />
+              </div>
+            )}
+
+            {showProfileEditor && (
+              <div className="mt-4">
+                <ProfileEditor />
+              </div>
+            )}
+
             {/* Showdown message */}
             {gameState.phase === 'showdown' && (
               <div className="mt-4">
                 <div className="bg-gradient-to-r from-yellow-600 to-yellow-500 rounded-lg p-6 text-center">
                   <h2 className="text-2xl font-bold text-black mb-2">Hand Complete!</h2>
+                  {handResult && (
+                    <div className="text-black mb-2">
+                      <p className="text-xl font-bold">
+                        {handResult.winners.length > 1
+                          ? `Split pot: ${handResult.winners.map(getPlayerName).join(' & ')}`
+                          : `${getPlayerName(handResult.winner)} wins`}
+                      </p>
+                      <p>{handResult.winningHand?.description ?? 'Everyone else folded'}</p>
+                    </div>
+                  )}
+                  {heroReads.length > 0 && (
+                    <div className="text-black text-sm mb-2">
+                      {heroReads.map(read => (
+                        <p key={read.player} className="truncate" title={read.range}>
+                          {read.name} put you on {read.rangePercentage}% of hands: {read.range}
+                        </p>
+                      ))}
+                    </div>
+                  )}
                   <p className="text-black mb-4">Pot: ${gameState.pot}</p>
-                  <button
-                    onClick={handleStartHand}
-                    className="bg-black hover:bg-gray-800 text-yellow-400 font-bold py-3 px-8 rounded-lg transition-colors"
-                  >
-                    Next Hand →
-                  </button>
+                  {!analysis && (
+                    <button
+                      onClick={handleGetCoachInsights}
+                      disabled={isLoading}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-900 text-white font-bold py-3 px-8 rounded-lg transition-colors mb-4"
+                    >
+                      {isLoading ? 'Coach is reviewing the hand...' : '🎓 Get AI Coach Insights'}
+                    </button>
+                  )}
+                  {coachError && (
+                    <p className="text-red-900 text-sm mb-4">Coach unavailable: {coachError}</p>
+                  )}
+                  {tournamentOver ? (
+                    <>
+                      <p className="text-xl font-bold text-black mb-4">
+                        {heroFinish?.place === 1
+                          ? `You won the tournament! Prize: $${heroFinish.prize}`
+                          : `You finished #${heroFinish?.place ?? '?'}` +
+                            (heroFinish?.prize ? ` and won $${heroFinish.prize}` : '')}
+                      </p>
+                      <button
+                        onClick={handleNewTournament}
+                        className="bg-black hover:bg-gray-800 text-yellow-400 font-bold py-3 px-8 rounded-lg transition-colors"
+                      >
+                        New Tournament →
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={heroNeedsRebuy ? rebuy : handleStartHand}
+                      className="bg-black hover:bg-gray-800 text-yellow-400 font-bold py-3 px-8 rounded-lg transition-colors"
+                    >
+                      {heroNeedsRebuy ? `Rebuy ($${rebuyAmount})` : 'Next Hand →'}
+                    </button>
+                  )}
                 </div>
               </div>
             )}
+
+            {/* Coach analysis of the hand just played */}
+            {gameState.phase === 'showdown' && analysis && (
+              <div className="mt-4">
+                <CoachAnalysis
+                  analysis={analysis}
+                  onNextHand={
+                    tournamentOver ? handleNewTournament : heroNeedsRebuy ? rebuy : handleStartHand
+                  }
+                />
+              </div>
+            )}
           </main>
 
           {/* Right Sidebar - Action Notification & Log */}
           <aside className="lg:col-span-1 space-y-4">
+            {/* Odds for the hero's decision */}
+            {isHeroTurn && gameState.phase === 'betting' && (
+              <OddsPanel gameState={gameState} standing={standing} />
+            )}
+
             {/* Visual notification of current action */}
             {gameState.phase !== 'waiting' && (
               <ActionNotification
@@ -28,13 +28,15 @@ const HandSummary: React.FC<HandSummaryProps> = ({
         {/* Winner Info */}
         <div className="bg-gradient-to-r from-yellow-600 to-yellow-500 rounded-lg p-4 mb-4">
           <div className="text-2xl font-bold text-black">
-            {result.winner === 'hero' ? '🎉 You Won!' : `${result.winner} Wins`}
+            {result.winners.length > 1
+              ? `Split Pot: ${result.winners.join(', ')}`
+              : result.winner === 'hero' ? '🎉 You Won!' : `${result.winner} Wins`}
           </div>
           <div className="text-xl text-black mt-2">
             Pot: ${result.potAmount}
           </div>
           <div className="text-sm text-black mt-1">
-            {result.winningHand.description}
+            {result.winningHand?.description ?? 'Everyone else folded'}
           </div>
         </div>
 
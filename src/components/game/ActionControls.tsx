@@ -1,40 +1,53 @@
 /**
  * Action controls component
- * Displays betting buttons for the hero player
+ * Displays betting buttons for the hero player, with implied odds when the
+ * hero faces a bet holding a draw
  */
 
-import React, { useState, useEffect } from 'react';
-import type { BetAction } from '../../types';
+import React, { useState } from 'react';
+import type { BetAction, ImpliedOdds, LegalActions } from '../../types';
 
 interface ActionControlsProps {
   currentBet: number;
   playerStack: number;
   pot: number;
-  minRaise: number;
-  canCheck: boolean;
+  legalActions: LegalActions;
   onAction: (action: BetAction) => void;
   bigBlind: number;
   isPreFlop: boolean;
+  impliedOdds?: ImpliedOdds | null;
 }
 
+const IMPLIED_ODDS_VERDICTS: Record<ImpliedOdds['verdict'], { label: string; color: string }> = {
+  'direct-odds': { label: 'The pot already pays for the draw', color: 'text-green-400' },
+  'implied-odds': { label: 'Call if you can win the extra later', color: 'text-yellow-400' },
+  'too-shallow': { label: 'Not enough behind to pay for the draw', color: 'text-red-400' },
+};
+
 const ActionControls: React.FC<ActionControlsProps> = ({
   currentBet,
   playerStack,
   pot,
-  minRaise,
-  canCheck,
+  legalActions,
   onAction,
   bigBlind,
   isPreFlop,
+  impliedOdds,
 }) => {
-  const [customRaise, setCustomRaise] = useState(minRaise);
+  const { canCheck, callAmount, canRaise, minRaiseTo, maxRaiseTo } = legalActions;
+  const [customRaise, setCustomRaise] = useState(minRaiseTo);
+
+  // Keep the slider value inside the legal range as it changes
+  const raiseTo = Math.min(Math.max(customRaise, minRaiseTo), maxRaiseTo);
+  const raiseLabel = currentBet === 0 ? 'Bet' : 'Raise to';
 
-  // Update custom raise when minRaise changes
-  useEffect(() => {
-    setCustomRaise(Math.max(minRaise, customRaise));
-  }, [minRaise]);
+  // All-in is a raise unless the stack only covers a call
+  const canGoAllIn = canRaise || playerStack <= callAmount;
 
   const calculateBetAmount = (type: string): number => {
+    // Pot-sized bets are measured after calling
+    const potAfterCall = pot + callAmount;
+
     switch (type) {
       case '2.5bb':
         return bigBlind * 2.5;
@@ -43,23 +56,24 @@ const ActionControls: React.FC<ActionControlsProps> = ({
       case '4bb':
         return bigBlind * 4;
       case '1/3':
-        return Math.floor(pot * 0.33);
+        return currentBet + Math.floor(potAfterCall * 0.33);
       case '1/2':
-        return Math.floor(pot * 0.5);
+        return currentBet + Math.floor(potAfterCall * 0.5);
       case '3/4':
-        return Math.floor(pot * 0.75);
+        return currentBet + Math.floor(potAfterCall * 0.75);
       case 'pot':
-        return pot;
+        return currentBet + potAfterCall;
       default:
         return 0;
     }
   };
 
   const handleBetClick = (amount: number) => {
-    if (amount >= playerStack) {
-      onAction({ type: 'all-in', amount: playerStack });
+    const legalAmount = Math.max(amount, minRaiseTo);
+    if (legalAmount >= maxRaiseTo) {
+      onAction({ type: 'all-in', amount: maxRaiseTo });
     } else {
-      onAction({ type: 'raise', amount: Math.max(amount, minRaise) });
+      onAction({ type: 'raise', amount: legalAmount });
     }
   };
 
@@ -74,6 +88,39 @@ const ActionControls: React.FC<ActionControlsProps> = ({
         <div className="text-sm">Current Bet: <span className="text-yellow-400 font-bold">${currentBet}</span></div>
       </div>
 
+      {/* Implied odds for a draw */}
+      {impliedOdds && (
+        <div className="mb-4 p-3 bg-gray-900 rounded-lg text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-400">Draw:</span>
+            <span className="font-semibold">
+              {impliedOdds.outs} outs{impliedOdds.dirtyOuts > 0 && ` (${impliedOdds.dirtyOuts} dirty)`},{' '}
+              {impliedOdds.hitChance}% next card
+            </span>
+          </div>
+          {impliedOdds.verdict !== 'direct-odds' && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Must win later:</span>
+              <span className="font-semibold">
+                {impliedOdds.neededWinnings === null ? 'Never profitable' : `$${impliedOdds.neededWinnings}`}
+                <span className="text-gray-500"> of ${impliedOdds.maxWinnings} behind</span>
+              </span>
+            </div>
+          )}
+          {impliedOdds.reverseImpliedCost > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Reverse implied:</span>
+              <span className="font-semibold text-orange-400">
+                +${impliedOdds.reverseImpliedCost} for dominated outs
+              </span>
+            </div>
+          )}
+          <div className={`text-xs mt-1 ${IMPLIED_ODDS_VERDICTS[impliedOdds.verdict].color}`}>
+            {IMPLIED_ODDS_VERDICTS[impliedOdds.verdict].label}
+          </div>
+        </div>
+      )}
+
       {/* Basic Actions */}
       <div className="grid grid-cols-2 gap-2 mb-4">
         {/* Fold Button */}
@@ -86,109 +133,116 @@ const ActionControls: React.FC<ActionControlsProps> = ({
 
         {/* Check/Call Button */}
         <button
-          onClick={() => onAction({ type: canCheck ? 'check' : 'call', amount: canCheck ? 0 : currentBet })}
+          onClick={() => onAction({ type: canCheck ? 'check' : 'call', amount: canCheck ? 0 : callAmount })}
           className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-lg transition-colors"
         >
-          {canCheck ? 'Check' : `Call $${currentBet}`}
+          {canCheck ? 'Check' : `Call $${callAmount}`}
         </button>
       </div>
 
-      {/* Raise Slider */}
-      <div className="mb-4">
-        <div className="flex justify-between items-center mb-2">
-          <label className="text-gray-300 text-sm font-semibold">Raise Amount:</label>
-          <span className="text-green-400 font-bold text-lg">${customRaise}</span>
-        </div>
-        <input
-          type="range"
-          min={minRaise}
-          max={playerStack}
-          value={customRaise}
-          onChange={handleSliderChange}
-          className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-green-500"
-        />
-        <div className="flex justify-between text-xs text-gray-500 mt-1">
-          <span>Min: ${minRaise}</span>
-          <span>Max: ${playerStack}</span>
+      {/* Raise Slider - only when raising is legal */}
+      {canRaise && (
+        <div className="mb-4">
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-gray-300 text-sm font-semibold">Raise Amount:</label>
+            <span className="text-green-400 font-bold text-lg">${raiseTo}</span>
+          </div>
+          <input
+            type="range"
+            min={minRaiseTo}
+            max={maxRaiseTo}
+            step={bigBlind / 2}
+            value={raiseTo}
+            onChange={handleSliderChange}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-green-500"
+          />
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>Min: ${minRaiseTo}</span>
+            <span>Max: ${maxRaiseTo}</span>
+          </div>
+          <button
+            onClick={() => handleBetClick(raiseTo)}
+            className="w-full mt-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+          >
+            {raiseLabel} ${raiseTo}
+          </button>
         </div>
-        <button
-          onClick={() => handleBetClick(customRaise)}
-          className="w-full mt-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition-colors"
-        >
-          Raise to ${customRaise}
-        </button>
-      </div>
+      )}
 
       {/* Quick Raise Presets */}
-      <div className="mb-4">
-        <div className="text-gray-400 text-xs mb-2 text-center">Quick Raise:</div>
-        {isPreFlop ? (
-          /* Pre-flop: BB-based raises */
-          <div className="grid grid-cols-3 gap-2">
-            <button
-              onClick={() => handleBetClick(calculateBetAmount('2.5bb'))}
-              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
-            >
-              2.5 BB
-              <div className="text-xs text-gray-400">${calculateBetAmount('2.5bb')}</div>
-            </button>
-            <button
-              onClick={() => handleBetClick(calculateBetAmount('3bb'))}
-              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
-            >
-              3 BB
-              <div className="text-xs text-gray-400">${calculateBetAmount('3bb')}</div>
-            </button>
-            <button
-              onClick={() => handleBetClick(calculateBetAmount('4bb'))}
-              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
-            >
-              4 BB
-              <div className="text-xs text-gray-400">${calculateBetAmount('4bb')}</div>
-            </button>
-          </div>
-        ) : (
-          /* Post-flop: Pot-based bets */
-          <div className="grid grid-cols-4 gap-2">
-            <button
-              onClick={() => handleBetClick(calculateBetAmount('1/3'))}
-              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
-            >
-              1/3
-              <div className="text-xs text-gray-400">${calculateBetAmount('1/3')}</div>
-            </button>
-            <button
-              onClick={() => handleBetClick(calculateBetAmount('1/2'))}
-              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
-            >
-              1/2
-              <div className="text-xs text-gray-400">${calculateBetAmount('1/2')}</div>
-            </button>
-            <button
-              onClick={() => handleBetClick(calculateBetAmount('3/4'))}
-              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
-            >
-              3/4
-              <div className="text-xs text-gray-400">${calculateBetAmount('3/4')}</div>
-            </button>
-            <button
-              onClick={() => handleBetClick(calculateBetAmount('pot'))}
-              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
-            >
-              Pot
-              <div className="text-xs text-gray-400">${calculateBetAmount('pot')}</div>
-            </button>
-          </div>
-        )}
-      </div>
+      {canRaise && (
+        <div className="mb-4">
+          <div className="text-gray-400 text-xs mb-2 text-center">Quick Raise:</div>
+          {isPreFlop ? (
+            /* Pre-flop: BB-based raises */
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => handleBetClick(calculateBetAmount('2.5bb'))}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
+              >
+                2.5 BB
+                <div className="text-xs text-gray-400">${calculateBetAmount('2.5bb')}</div>
+              </button>
+              <button
+                onClick={() => handleBetClick(calculateBetAmount('3bb'))}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
+              >
+                3 BB
+                <div className="text-xs text-gray-400">${calculateBetAmount('3bb')}</div>
+              </button>
+              <button
+                onClick={() => handleBetClick(calculateBetAmount('4bb'))}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
+              >
+                4 BB
+                <div className="text-xs text-gray-400">${calculateBetAmount('4bb')}</div>
+              </button>
+            </div>
+          ) : (
+            /* Post-flop: Pot-based bets */
+            <div className="grid grid-cols-4 gap-2">
+              <button
+                onClick={() => handleBetClick(calculateBetAmount('1/3'))}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
+              >
+                1/3
+                <div className="text-xs text-gray-400">${calculateBetAmount('1/3')}</div>
+              </button>
+              <button
+                onClick={() => handleBetClick(calculateBetAmount('1/2'))}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
+              >
+                1/2
+                <div className="text-xs text-gray-400">${calculateBetAmount('1/2')}</div>
+              </button>
+              <button
+                onClick={() => handleBetClick(calculateBetAmount('3/4'))}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
+              >
+                3/4
+                <div className="text-xs text-gray-400">${calculateBetAmount('3/4')}</div>
+              </button>
+              <button
+                onClick={() => handleBetClick(calculateBetAmount('pot'))}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-2 rounded transition-colors"
+              >
+                Pot
+                <div className="text-xs text-gray-400">${calculateBetAmount('pot')}</div>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* All-In */}
-      <button
-        onClick={() => onAction({ type: 'all-in', amount: playerStack })}
-        className="w-full bg-yellow-500 hover:bg-yellow-600 text-black font-bold py-3 px-4 rounded-lg transition-colors"
-      >
-        All-In (${playerStack})
-      </button>
+      {canGoAllIn && (
+        <button
+          onClick={() => onAction({ type: 'all-in', amount: maxRaiseTo })}
+          className="w-full bg-yellow-500 hover:bg-yellow-600 text-black font-bold py-3 px-4 rounded-lg transition-colors"
+        >
+          All-In (${playerStack})
+        </button>
+      )}
     </div>
   );
 };
@@ -12,7 +12,7 @@ interface ActionLogProps {
 
 const ActionLog: React.FC<ActionLogProps> = ({ actions }) => {
   const formatAction = (action: Action): string => {
-    const playerName = action.playerName;
+    const playerName = `${action.playerName} (${action.tablePosition})`;
 
     switch (action.action) {
       case 'fold':
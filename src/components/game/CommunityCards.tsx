@@ -1,10 +1,11 @@
 /**
  * Community cards component
- * Displays the community cards (flop, turn, river)
+ * Displays the community cards (flop, turn, river) with a board texture badge
  */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import type { Card as CardType } from '../../types';
+import { analyzeBoardTexture } from '../../utils/boardTexture';
 import Card from './Card';
 
 interface CommunityCardsProps {
@@ -14,12 +15,33 @@ interface CommunityCardsProps {
 const CommunityCards: React.FC<CommunityCardsProps> = ({ cards }) => {
   // Show 5 card slots, empty ones as placeholders
   const cardSlots = Array.from({ length: 5 }, (_, i) => cards[i] || null);
+  const texture = useMemo(() => (cards.length >= 3 ? analyzeBoardTexture(cards) : null), [cards]);
+
+  const wetnessColors = {
+    dry: 'bg-sky-800 text-sky-100',
+    'semi-wet': 'bg-amber-700 text-amber-100',
+    wet: 'bg-red-800 text-red-100',
+  };
 
   return (
-    <div className="flex gap-3">
-      {cardSlots.map((card, index) => (
-        <Card key={index} card={card} size="large" />
-      ))}
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex gap-3">
+        {cardSlots.map((card, index) => (
+          <Card key={index} card={card} size="large" />
+        ))}
+      </div>
+      {texture && (
+        <div
+          className={`px-3 py-1 rounded-full text-xs font-semibold ${wetnessColors[texture.wetness]}`}
+          title={`Nuts: ${texture.nuts}${
+            texture.nutChangers.length > 0
+              ? ` - ${texture.nutChangers.length} cards would change them`
+              : ''
+          }`}
+        >
+          {texture.summary}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,58 @@
+/**
+ * Hero HUD component
+ * Shows the hero's session stats the way a HUD would and, when an adaptive
+ * opponent is seated, which of those leaks it is exploiting
+ */
+
+import React from 'react';
+import type { HudCounts } from '../../types';
+import { getExploitAdjustments, getHudStats } from '../../services/ai';
+
+interface HeroHudProps {
+  counts: HudCounts;
+  showExploits: boolean; // An adaptive opponent is at the table
+}
+
+const formatPercent = (value: number | null): string => (value === null ? '—' : `${value}%`);
+
+const HeroHud: React.FC<HeroHudProps> = ({ counts, showExploits }) => {
+  const stats = getHudStats(counts);
+  const leaks = showExploits ? getExploitAdjustments(counts).leaks : [];
+
+  const rows: [string, string][] = [
+    ['VPIP', formatPercent(stats.vpip)],
+    ['PFR', formatPercent(stats.pfr)],
+    ['Fold to C-Bet', formatPercent(stats.foldToCbet)],
+    ['Went to Showdown', formatPercent(stats.wtsd)],
+    ['Aggression', stats.aggression === null ? '—' : String(stats.aggression)],
+  ];
+
+  return (
+    <div className="mt-6 p-4 bg-gray-700 rounded-lg text-sm">
+      <h3 className="font-bold mb-2 text-cyan-300">Your HUD ({stats.hands} hands)</h3>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-gray-400">{label}:</span>
+          <span className="font-semibold">{value}</span>
+        </div>
+      ))}
+
+      {/* What the adaptive opponent has picked up on */}
+      {showExploits && (
+        <div className="mt-2 pt-2 border-t border-gray-600 text-gray-300">
+          {leaks.length > 0 ? (
+            leaks.map(leak => (
+              <div key={leak} className="text-orange-300">
+                {leak}
+              </div>
+            ))
+          ) : (
+            <div className="text-gray-400">The adaptive opponent has not found a leak yet</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeroHud;
@@ -0,0 +1,238 @@
+/**
+ * Odds panel component
+ * Shows the hero's hand strength on this board, pot odds, equity and the EV
+ * of calling for the hero; in a tournament
+ * all-in spot it shows prize-money EV ($EV) next to chip EV
+ */
+
+import React, { useMemo, useState } from 'react';
+import type {
+  DrawType,
+  GameState,
+  RelativeStrength,
+  TournamentStanding,
+} from '../../types';
+import { calculateEV, calculateHitProbability, calculatePotOdds } from '../../utils/oddsCalculator';
+import { analyzeOuts, DRAW_LABELS } from '../../utils/outs';
+import { getRelativeStrength } from '../../utils/relativeStrength';
+import { getOpponentRangeTexts, getParsedRange } from '../../services/ai';
+import { useEquity } from '../../hooks/useEquity';
+import type { UseEquityReturn } from '../../hooks/useEquity';
+import { useSavedRanges } from '../../hooks/useSavedRanges';
+import { expandHandRange } from '../../utils/handRanges';
+import { calculateAllInCallEV, calculateICM, isFacingAllIn } from '../../utils/icm';
+import { roundChips } from '../../utils/pokerLogic';
+
+interface EquityMeterProps {
+  label: string;
+  equity: UseEquityReturn;
+}
+
+/**
+ * Equity with a bar that fills in as the worker's estimate refines
+ */
+const EquityMeter: React.FC<EquityMeterProps> = ({ label, equity }) => {
+  const { result, isFinal, noCombos } = equity;
+  const value = result
+    ? `${result.equity.toFixed(1)}%`
+    : noCombos ? 'no combos' : isFinal ? 'n/a' : '…';
+  const interval = result
+    ? `${result.confidenceInterval.low.toFixed(1)}-${result.confidenceInterval.high.toFixed(1)}, ${Math.round(result.samples / 1000)}k trials`
+    : '';
+  const detail = noCombos
+    ? 'every hand in the range is blocked by the cards out'
+    : result?.exact ? 'exact' : interval;
+
+  return (
+    <div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">{label}:</span>
+        <span className="font-semibold">{value}</span>
+      </div>
+      <div className="h-1.5 bg-gray-700 rounded">
+        <div
+          className="h-1.5 bg-green-500 rounded transition-all"
+          style={{ width: `${result?.equity ?? 0}%` }}
+        />
+      </div>
+      {detail && <div className="text-xs text-gray-500 text-right">{detail}</div>}
+    </div>
+  );
+};
+
+/**
+ * Percentile of possible holdings the hero's made hand beats
+ */
+const StrengthMeter: React.FC<{ strength: RelativeStrength }> = ({ strength }) => {
+  const barColor =
+    strength.percentile >= 80 ? 'bg-green-500' : strength.percentile >= 50 ? 'bg-yellow-500' : 'bg-red-500';
+
+  return (
+    <div className="pb-1">
+      <div className="flex justify-between">
+        <span className="text-gray-400">{strength.madeHand}:</span>
+        <span className="font-semibold">{strength.nutLabel}</span>
+      </div>
+      <div className="h-1.5 bg-gray-700 rounded">
+        <div className={`h-1.5 ${barColor} rounded`} style={{ width: `${strength.percentile}%` }} />
+      </div>
+      <div className="text-xs text-gray-500 text-right">
+        beats {strength.percentile}% of possible hands
+      </div>
+    </div>
+  );
+};
+
+interface OddsPanelProps {
+  gameState: GameState;
+  standing: TournamentStanding | null;
+}
+
+const OddsPanel: React.FC<OddsPanelProps> = ({ gameState, standing }) => {
+  const heroIndex = gameState.players.findIndex(p => p.position === 'hero');
+  const hero = gameState.players[heroIndex];
+  const heroCards = hero?.holeCards;
+  const opponentsInHand = gameState.players.filter(
+    p => p.position !== 'hero' && !p.isFolded
+  ).length;
+
+  // Both equities refine in a worker while the hero thinks
+  const randomEquity = useEquity(heroCards, gameState.communityCards, opponentsInHand);
+  const equity = randomEquity.result?.equity ?? 0;
+
+  // Same hand against the ranges each opponent's style actually plays, rebuilt
+  // only when someone folds so bets and calls do not restart the worker
+  const opponentRangeKey = getOpponentRangeTexts(gameState.players).join('\n');
+  const opponentRanges = useMemo(
+    () => (opponentRangeKey ? opponentRangeKey.split('\n').map(getParsedRange) : []),
+    [opponentRangeKey]
+  );
+  const rangeEquity = useEquity(heroCards, gameState.communityCards, opponentRanges);
+
+  // Or heads-up against one of the user's saved ranges
+  const { savedRanges } = useSavedRanges();
+  const [savedRangeName, setSavedRangeName] = useState('');
+  const savedRange = savedRanges.find(saved => saved.name === savedRangeName);
+  const savedRangeOpponents = useMemo(() => {
+    const combos = savedRange ? expandHandRange(savedRange.range) : [];
+    return combos.length > 0 ? [combos] : 0;
+  }, [savedRange]);
+  const savedRangeEquity = useEquity(
+    heroCards,
+    gameState.communityCards,
+    savedRangeOpponents
+  );
+
+  const outs = useMemo(
+    () => (heroCards ? analyzeOuts(heroCards, gameState.communityCards) : null),
+    [heroCards, gameState.communityCards]
+  );
+
+  const strength = useMemo(
+    () =>
+      heroCards?.length === 2 && gameState.communityCards.length >= 3
+        ? getRelativeStrength(heroCards, gameState.communityCards)
+        : null,
+    [heroCards, gameState.communityCards]
+  );
+
+  if (!hero || hero.holeCards.length < 2) return null;
+
+  const callAmount = Math.min(roundChips(gameState.currentBet - hero.currentBet), hero.stack);
+  const potOdds = calculatePotOdds(gameState.pot, callAmount);
+
+  const icmCall = standing && isFacingAllIn(gameState, heroIndex)
+    ? calculateAllInCallEV(gameState, heroIndex, equity, standing.prizes)
+    : null;
+  const heroPrizeEquity = standing
+    ? calculateICM(gameState.players.map(p => p.startingStack), standing.prizes)[heroIndex]
+    : null;
+
+  const formatSigned = (value: number, prefix: string = '') =>
+    `${value >= 0 ? '+' : '-'}${prefix}${Math.abs(value)}`;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border-2 border-gray-700 text-sm">
+      <h3 className="text-white font-bold mb-3 text-lg">Odds</h3>
+      <div className="space-y-1">
+        {strength && <StrengthMeter strength={strength} />}
+        <EquityMeter label={`Equity vs ${opponentsInHand} random`} equity={randomEquity} />
+        {opponentRanges.length > 0 && (
+          <EquityMeter label="Equity vs their ranges" equity={rangeEquity} />
+        )}
+        {savedRanges.length > 0 && (
+          <div className="pt-1">
+            <select
+              value={savedRangeName}
+              onChange={e => setSavedRangeName(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs mb-1"
+            >
+              <option value="">Equity vs a saved range…</option>
+              {savedRanges.map(saved => (
+                <option key={saved.name} value={saved.name}>
+                  {saved.name}
+                </option>
+              ))}
+            </select>
+            {savedRange && (
+              <EquityMeter label={`Equity vs ${savedRange.name}`} equity={savedRangeEquity} />
+            )}
+          </div>
+        )}
+        {outs && outs.outs.length > 0 && (
+          <div className="pt-1">
+            <div className="flex justify-between">
+              <span className="text-gray-400">Outs:</span>
+              <span className="font-semibold">
+                {outs.clean} clean{outs.dirty > 0 && ` + ${outs.dirty} dirty`}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Hit by river (discounted):</span>
+              <span className="font-semibold">
+                {calculateHitProbability(outs.discounted, 5 - gameState.communityCards.length)}%
+              </span>
+            </div>
+            <div className="text-xs text-gray-500 text-right">
+              {Object.entries(outs.byDraw)
+                .map(([draw, cards]) => `${DRAW_LABELS[draw as DrawType]} (${cards.length})`)
+                .join(', ')}
+            </div>
+          </div>
+        )}
+        {callAmount > 0 && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Pot Odds:</span>
+              <span className="font-semibold">{potOdds}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Call (chip EV):</span>
+              <span className="font-semibold">
+                {formatSigned(icmCall?.chipEV ?? calculateEV(gameState.pot, callAmount, equity))}
+              </span>
+            </div>
+          </>
+        )}
+        {icmCall && (
+          <div className="flex justify-between">
+            <span className="text-gray-400">Call ($EV):</span>
+            <span
+              className={`font-semibold ${icmCall.dollarEV >= 0 ? 'text-green-400' : 'text-red-400'}`}
+            >
+              {formatSigned(icmCall.dollarEV, '$')}
+            </span>
+          </div>
+        )}
+        {heroPrizeEquity !== null && (
+          <div className="flex justify-between">
+            <span className="text-gray-400">ICM Equity (hand start):</span>
+            <span className="font-semibold">${heroPrizeEquity}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OddsPanel;
@@ -4,47 +4,55 @@
  */
 
 import React from 'react';
-import type { Player, PlayerPosition as Position } from '../../types';
+import type { Player, TablePosition } from '../../types';
 import Card from './Card';
 
 interface PlayerPositionProps {
   player: Player;
   isDealer: boolean;
   isCurrentPlayer: boolean;
-  position: Position;
+  seatIndex: number;
+  seatCount: number;
+  tablePosition: TablePosition;
+  showCards?: boolean;
 }
 
+// Seat ring radii as a percentage of the table size; seats sit just outside the rail
+const SEAT_RADIUS_X = 56;
+const SEAT_RADIUS_Y = 62;
+
 const PlayerPosition: React.FC<PlayerPositionProps> = ({
   player,
   isDealer,
   isCurrentPlayer,
-  position,
+  seatIndex,
+  seatCount,
+  tablePosition,
+  showCards = false,
 }) => {
-  // Position styling based on seat
-  const getPositionStyle = () => {
-    switch (position) {
-      case 'hero':
-        return 'bottom-[-80px] left-1/2 transform -translate-x-1/2';
-      case 'opponent1':
-        return 'top-[-80px] left-1/2 transform -translate-x-1/2';
-      case 'opponent2':
-        return 'left-[-120px] top-1/2 transform -translate-y-1/2';
-      case 'opponent3':
-        return 'right-[-120px] top-1/2 transform -translate-y-1/2';
-      default:
-        return '';
-    }
+  // Spread seats evenly around the table, seat 0 at the bottom and going clockwise
+  const getPositionStyle = (): React.CSSProperties => {
+    const angle = Math.PI / 2 + (2 * Math.PI * seatIndex) / seatCount;
+    return {
+      left: `${50 + SEAT_RADIUS_X * Math.cos(angle)}%`,
+      top: `${50 + SEAT_RADIUS_Y * Math.sin(angle)}%`,
+    };
   };
 
   return (
-    <div className={`absolute ${getPositionStyle()}`}>
+    <div className="absolute transform -translate-x-1/2 -translate-y-1/2" style={getPositionStyle()}>
       <div
         className={`bg-gray-800 rounded-lg p-3 min-w-[140px] border-2 ${
           isCurrentPlayer ? 'border-yellow-400 shadow-lg shadow-yellow-400/50' : 'border-gray-600'
         }`}
       >
-        {/* Player Name */}
-        <div className="text-center font-bold text-white mb-1">{player.name}</div>
+        {/* Player Name and Position */}
+        <div className="flex items-center justify-center gap-2 mb-1">
+          <span className="font-bold text-white">{player.name}</span>
+          <span className="bg-blue-900 text-blue-200 px-1.5 rounded text-xs font-semibold">
+            {tablePosition}
+          </span>
+        </div>
 
         {/* Stack Size */}
         <div className="text-center text-green-400 font-semibold mb-2">
@@ -58,7 +66,7 @@ const PlayerPosition: React.FC<PlayerPositionProps> = ({
               key={index}
               card={card}
               size="small"
-              faceDown={position !== 'hero' && !player.isFolded}
+              faceDown={player.position !== 'hero' && !player.isFolded && !showCards}
             />
           ))}
         </div>
@@ -7,12 +7,23 @@ import React from 'react';
 import type { GameState } from '../../types';
 import PlayerPosition from './PlayerPosition';
 import CommunityCards from './CommunityCards';
+import { getTablePositions } from '../../utils/positions';
+import { buildPots } from '../../utils/sidePots';
 
 interface PokerTableProps {
   gameState: GameState;
 }
 
 const PokerTable: React.FC<PokerTableProps> = ({ gameState }) => {
+  // Bets still in front of players are not part of any pot until the round closes
+  const pots = gameState.handResult
+    ? gameState.handResult.potResults.map(result => result.pot)
+    : buildPots(
+        gameState.players.map(p => ({ ...p, totalContribution: p.totalContribution - p.currentBet }))
+      );
+
+  const tablePositions = getTablePositions(gameState.players.length, gameState.dealerButtonIndex);
+
   return (
     <div className="relative w-full h-full flex items-center justify-center">
       {/* Poker Table */}
@@ -22,9 +33,23 @@ const PokerTable: React.FC<PokerTableProps> = ({ gameState }) => {
           <CommunityCards cards={gameState.communityCards} />
         </div>
 
-        {/* Pot Display */}
-        <div className="absolute top-8 left-1/2 transform -translate-x-1/2 bg-gray-900 text-yellow-400 px-6 py-2 rounded-full font-bold text-xl border-2 border-yellow-500">
-          Pot: ${gameState.pot}
+        {/* Pot Display - main pot and any side pots */}
+        <div className="absolute top-8 left-1/2 transform -translate-x-1/2 flex gap-2">
+          {pots.length <= 1 ? (
+            <div className="bg-gray-900 text-yellow-400 px-6 py-2 rounded-full font-bold text-xl border-2 border-yellow-500">
+              Pot: ${gameState.pot}
+            </div>
+          ) : (
+            pots.map((pot, index) => (
+              <div
+                key={index}
+                className="bg-gray-900 text-yellow-400 px-4 py-2 rounded-full font-bold border-2 border-yellow-500 whitespace-nowrap"
+                title={`Eligible: ${pot.eligiblePlayers.join(', ')}`}
+              >
+                {index === 0 ? 'Main Pot' : `Side Pot ${index}`}: ${pot.total}
+              </div>
+            ))
+          )}
         </div>
 
         {/* Player Positions */}
@@ -34,7 +59,10 @@ const PokerTable: React.FC<PokerTableProps> = ({ gameState }) => {
             player={player}
             isDealer={index === gameState.dealerButtonIndex}
             isCurrentPlayer={index === gameState.currentPlayerIndex}
-            position={player.position}
+            seatIndex={player.seat}
+            seatCount={gameState.tableSize}
+            tablePosition={tablePositions[index]}
+            showCards={gameState.handResult?.allPlayerHands.has(player.position) ?? false}
           />
         ))}
       </div>
@@ -0,0 +1,99 @@
+/**
+ * Seed controls component
+ * Shows the session and hand seeds, lets the user start a session from a seed
+ * (same stacks, opponents and button) and deal a hand from a seed
+ */
+
+import React, { useState } from 'react';
+import { formatSeed, parseSeed } from '../../utils/random';
+
+interface SeedControlsProps {
+  sessionSeed: number;
+  handSeed: number | null;
+  canDeal: boolean;
+  onDealSeed: (seed: number) => void;
+  onStartSession: (seed: number) => void;
+}
+
+const SeedControls: React.FC<SeedControlsProps> = ({
+  sessionSeed,
+  handSeed,
+  canDeal,
+  onDealSeed,
+  onStartSession,
+}) => {
+  const [sessionInput, setSessionInput] = useState('');
+  const [seedInput, setSeedInput] = useState('');
+  const parsedSessionSeed = parseSeed(sessionInput);
+  const parsedSeed = parseSeed(seedInput);
+
+  const handleStartSession = () => {
+    if (parsedSessionSeed !== null) {
+      onStartSession(parsedSessionSeed);
+      setSessionInput('');
+    }
+  };
+
+  const handleDeal = () => {
+    if (parsedSeed !== null) {
+      onDealSeed(parsedSeed);
+      setSeedInput('');
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-gray-700 rounded-lg text-sm">
+      <h3 className="font-bold mb-2 text-blue-300">Seeds</h3>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Session:</span>
+        <span className="font-mono select-all">{formatSeed(sessionSeed)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Hand:</span>
+        <span className="font-mono select-all">
+          {handSeed !== null ? formatSeed(handSeed) : '—'}
+        </span>
+      </div>
+
+      {/* Sit down at the table a session seed deals */}
+      <div className="flex gap-2 mt-3">
+        <input
+          type="text"
+          value={sessionInput}
+          onChange={e => setSessionInput(e.target.value)}
+          placeholder="Session seed"
+          maxLength={8}
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono uppercase"
+        />
+        <button
+          onClick={handleStartSession}
+          disabled={parsedSessionSeed === null}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold px-3 py-1 rounded transition-colors"
+        >
+          Sit
+        </button>
+      </div>
+
+      {/* Deal a specific hand */}
+      <div className="flex gap-2 mt-2">
+        <input
+          type="text"
+          value={seedInput}
+          onChange={e => setSeedInput(e.target.value)}
+          placeholder="Hand seed"
+          maxLength={8}
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono uppercase"
+        />
+        <button
+          onClick={handleDeal}
+          disabled={!canDeal || parsedSeed === null}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold px-3 py-1 rounded transition-colors"
+        >
+          Deal
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SeedControls;
@@ -0,0 +1,186 @@
+/**
+ * Table setup component
+ * Lets the user choose the game, table size, blinds, bankroll rules and who sits
+ * in each seat before the first hand
+ */
+
+import React from 'react';
+import type { AnteType, GameMode, TableConfig } from '../../types';
+import { useSavedProfiles } from '../../hooks/useSavedProfiles';
+import { PLAYER_STYLES } from '../../services/ai';
+import { MAX_SEATS, MIN_SEATS } from '../../services/engine';
+import { BLIND_STRUCTURES } from '../../utils/blindStructures';
+
+interface TableSetupProps {
+  config: TableConfig;
+  onChange: (config: TableConfig) => void;
+}
+
+const SEAT_OPTIONS = Array.from({ length: MAX_SEATS - MIN_SEATS + 1 }, (_, i) => MIN_SEATS + i);
+const BUY_IN_OPTIONS = [50, 100, 200];
+const BUILT_IN_STYLES = Object.values(PLAYER_STYLES);
+
+const TableSetup: React.FC<TableSetupProps> = ({ config, onChange }) => {
+  const { savedProfiles } = useSavedProfiles();
+  const profiles = [...BUILT_IN_STYLES, ...savedProfiles];
+  const hasAntes = config.blinds.levels.some(level => level.ante > 0);
+  const blindsId = Object.keys(BLIND_STRUCTURES).find(
+    id => BLIND_STRUCTURES[id] === config.blinds
+  );
+
+  const isTournament = config.mode === 'tournament';
+  const selectClass = 'bg-gray-700 border border-gray-600 rounded px-2 py-1';
+
+  // Each mode starts from its own blind structure
+  const handleModeChange = (mode: GameMode) => {
+    onChange({
+      ...config,
+      mode,
+      blinds: mode === 'tournament' ? BLIND_STRUCTURES['sng-turbo'] : BLIND_STRUCTURES.cash,
+    });
+  };
+
+  // Pick a profile by name for one opponent seat; an empty name leaves it to chance
+  const handleSeatChange = (index: number, name: string) => {
+    const lineup = Array.from({ length: config.seats - 1 }, (_, i) => config.lineup[i] ?? null);
+    lineup[index] = profiles.find(p => p.name === name) ?? null;
+    onChange({ ...config, lineup });
+  };
+
+  return (
+    <div className="space-y-2 mb-4 text-gray-300">
+      <label className="flex items-center justify-center gap-2">
+        Game:
+        <select
+          value={config.mode}
+          onChange={e => handleModeChange(e.target.value as GameMode)}
+          className={selectClass}
+        >
+          <option value="cash">Cash game</option>
+          <option value="tournament">Sit &amp; Go tournament</option>
+        </select>
+      </label>
+
+      {isTournament && (
+        <p className="text-sm text-gray-400">
+          Everyone starts with {config.tournament.startingStack} chips; ${config.tournament.buyIn}{' '}
+          buy-in
+        </p>
+      )}
+
+      <label className="flex items-center justify-center gap-2">
+        Players at the table:
+        <select
+          value={config.seats}
+          onChange={e => onChange({ ...config, seats: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {SEAT_OPTIONS.map(seats => (
+            <option key={seats} value={seats}>
+              {seats === 2 ? '2 (heads-up)' : seats}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-center gap-2">
+        Blinds:
+        <select
+          value={blindsId}
+          onChange={e => onChange({ ...config, blinds: BLIND_STRUCTURES[e.target.value] })}
+          className={selectClass}
+        >
+          {Object.entries(BLIND_STRUCTURES).map(([id, structure]) => (
+            <option key={id} value={id}>
+              {structure.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {hasAntes && (
+        <label className="flex items-center justify-center gap-2">
+          Antes paid by:
+          <select
+            value={config.anteType}
+            onChange={e => onChange({ ...config, anteType: e.target.value as AnteType })}
+            className={selectClass}
+          >
+            <option value="per-player">Every player</option>
+            <option value="big-blind">Big blind</option>
+          </select>
+        </label>
+      )}
+
+      <label className="flex items-center justify-center gap-2">
+        <input
+          type="checkbox"
+          checked={config.straddle}
+          onChange={e => onChange({ ...config, straddle: e.target.checked })}
+        />
+        UTG straddle (2 big blinds)
+      </label>
+
+      <label className="flex items-center justify-center gap-2">
+        <input
+          type="checkbox"
+          checked={config.adaptiveOpponent}
+          onChange={e => onChange({ ...config, adaptiveOpponent: e.target.checked })}
+        />
+        Adaptive opponent (learns and exploits your leaks)
+      </label>
+
+      <div className="space-y-1">
+        <p>Opponents:</p>
+        {Array.from({ length: config.seats - 1 }, (_, index) => (
+          <label key={index} className="flex items-center justify-center gap-2 text-sm">
+            Seat {index + 1}:
+            <select
+              value={config.lineup[index]?.name ?? ''}
+              onChange={e => handleSeatChange(index, e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Random</option>
+              {profiles.map(profile => (
+                <option key={profile.name} value={profile.name}>
+                  {profile.name}
+                  {BUILT_IN_STYLES.includes(profile) ? ` (${profile.style})` : ' (saved)'}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {!isTournament && (
+        <>
+          <label className="flex items-center justify-center gap-2">
+            Rebuy to:
+            <select
+              value={config.maxBuyIn}
+              onChange={e => onChange({ ...config, maxBuyIn: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {BUY_IN_OPTIONS.map(bigBlinds => (
+                <option key={bigBlinds} value={bigBlinds}>
+                  {bigBlinds} BB
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-center gap-2">
+            <input
+              type="checkbox"
+              checked={config.autoTopUp}
+              onChange={e => onChange({ ...config, autoTopUp: e.target.checked })}
+            />
+            Auto top-up before every hand
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TableSetup;
@@ -0,0 +1,67 @@
+/**
+ * Tournament standings component
+ * Shows the prize pool, the payout table and who has finished where
+ */
+
+import React from 'react';
+import type { TournamentStanding } from '../../types';
+
+interface TournamentStandingsProps {
+  standing: TournamentStanding;
+}
+
+const PLACE_LABELS = ['1st', '2nd', '3rd'];
+
+const formatPlace = (place: number): string => PLACE_LABELS[place - 1] ?? `${place}th`;
+
+const TournamentStandings: React.FC<TournamentStandingsProps> = ({ standing }) => {
+  const playersLeft = standing.entrants - standing.finishes.filter(f => f.place > 1).length;
+  const finishes = [...standing.finishes].sort((a, b) => a.place - b.place);
+
+  return (
+    <div className="mt-6 p-4 bg-gray-700 rounded-lg text-sm">
+      <h3 className="font-bold mb-2 text-purple-300">Tournament</h3>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Prize Pool:</span>
+        <span className="font-semibold">${standing.prizePool}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Players Left:</span>
+        <span className="font-semibold">
+          {playersLeft}/{standing.entrants}
+        </span>
+      </div>
+
+      {/* Payout table */}
+      <div className="mt-2">
+        {standing.prizes.map((prize, index) => (
+          <div key={index} className="flex justify-between text-gray-300">
+            <span>{formatPlace(index + 1)}</span>
+            <span>${prize}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Finishing order so far */}
+      {finishes.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-gray-600">
+          {finishes.map(finish => (
+            <div
+              key={finish.player + finish.place}
+              className={`flex justify-between ${
+                finish.player === 'hero' ? 'text-green-400 font-semibold' : 'text-gray-300'
+              }`}
+            >
+              <span>
+                {formatPlace(finish.place)} {finish.name}
+              </span>
+              <span>{finish.prize > 0 ? `$${finish.prize}` : '—'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TournamentStandings;
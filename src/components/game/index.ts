@@ -9,3 +9,8 @@ export { default as ActionControls } from './ActionControls';
 export { default as ActionLog } from './ActionLog';
 export { default as Card } from './Card';
 export { default as ActionNotification } from './ActionNotification';
+export { default as SeedControls } from './SeedControls';
+export { default as TableSetup } from './TableSetup';
+export { default as OddsPanel } from './OddsPanel';
+export { default as TournamentStandings } from './TournamentStandings';
+export { default as HeroHud } from './HeroHud';
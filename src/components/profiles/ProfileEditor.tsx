@@ -0,0 +1,261 @@
+/**
+ * Opponent profile editor component
+ * Start from a built-in style or a saved profile, tune how it plays, then save
+ * it under a name so it can be picked for a seat at table setup
+ */
+
+import React, { useState } from 'react';
+import type { BetSizing, PlayerStyleConfig } from '../../types';
+import { useSavedProfiles } from '../../hooks/useSavedProfiles';
+import { PLAYER_STYLES, completeProfile } from '../../services/ai';
+import { getHandRangePercentage, parseHandRange } from '../../utils/handRanges';
+
+type NumericSetting =
+  | 'vpip'
+  | 'pfr'
+  | 'threeBet'
+  | 'foldToThreeBet'
+  | 'cbet'
+  | 'aggression'
+  | 'bluffFrequency'
+  | 'tilt';
+
+interface Slider {
+  setting: NumericSetting;
+  label: string;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value)}%`;
+const outOfTen = (value: number) => `${Math.round(value * 10) / 10}/10`;
+
+const SLIDERS: Slider[] = [
+  { setting: 'vpip', label: 'VPIP', max: 100, step: 1, format: percent },
+  { setting: 'pfr', label: 'Preflop raise', max: 100, step: 1, format: percent },
+  { setting: 'threeBet', label: '3-bet', max: 100, step: 1, format: percent },
+  { setting: 'foldToThreeBet', label: 'Fold to 3-bet', max: 100, step: 1, format: percent },
+  { setting: 'cbet', label: 'C-bet', max: 100, step: 1, format: percent },
+  { setting: 'aggression', label: 'Aggression', max: 10, step: 0.5, format: outOfTen },
+  { setting: 'bluffFrequency', label: 'Bluffing', max: 1, step: 0.05, format: value => percent(value * 100) },
+  { setting: 'tilt', label: 'Tilt after big losses', max: 10, step: 1, format: outOfTen },
+];
+
+const SIZING_LABELS: Record<BetSizing, string> = {
+  small: 'Small (about 1/3 pot)',
+  standard: 'Standard',
+  large: 'Large',
+  overbet: 'Overbets',
+};
+
+const BUILT_IN_STYLES = Object.values(PLAYER_STYLES);
+
+const ProfileEditor: React.FC = () => {
+  const { savedProfiles, saveProfile, deleteProfile } = useSavedProfiles();
+  const [profile, setProfile] = useState<PlayerStyleConfig>(() =>
+    completeProfile({ ...PLAYER_STYLES['tight-aggressive'], name: '' })
+  );
+  // Range text being typed; null shows the profile's range
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStartFrom = (name: string) => {
+    const start = [...savedProfiles, ...BUILT_IN_STYLES].find(p => p.name === name);
+    if (!start) return;
+    // Built-in names are taken, so a profile built on one starts unnamed
+    const isBuiltIn = BUILT_IN_STYLES.includes(start);
+    setProfile(completeProfile({ ...start, name: isBuiltIn ? '' : start.name }));
+    setDraft(null);
+    setError(null);
+  };
+
+  // VPIP includes every raise, so the two move together
+  const handleSetting = (setting: NumericSetting, value: number) => {
+    setProfile(prev => {
+      const next = { ...prev, [setting]: value };
+      if (setting === 'vpip') next.pfr = Math.min(next.pfr, value);
+      if (setting === 'pfr') next.vpip = Math.max(next.vpip, value);
+      return next;
+    });
+  };
+
+  const applyDraft = () => {
+    if (draft === null) return;
+    try {
+      // The equity worker needs at least one combo for every seat
+      if (Object.keys(parseHandRange(draft)).length === 0) {
+        throw new Error('The range needs at least one hand');
+      }
+      setProfile(prev => ({ ...prev, range: draft }));
+      setDraft(null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Invalid range');
+    }
+  };
+
+  const handleSave = () => {
+    if (draft !== null) {
+      setError('Fix the range before saving');
+      return;
+    }
+    try {
+      saveProfile(profile);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the profile');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border-2 border-gray-700 text-sm space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-white font-bold text-lg">Opponent Profiles</h3>
+        <label className="flex items-center gap-2 text-gray-400">
+          Start from:
+          <select
+            value=""
+            onChange={e => handleStartFrom(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+          >
+            <option value="" disabled>
+              Choose…
+            </option>
+            {BUILT_IN_STYLES.map(style => (
+              <option key={style.name} value={style.name}>
+                {style.name} ({style.style})
+              </option>
+            ))}
+            {savedProfiles.map(saved => (
+              <option key={saved.name} value={saved.name}>
+                {saved.name} (saved)
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+        {SLIDERS.map(({ setting, label, max, step, format }) => (
+          <label key={setting} className="block">
+            <span className="flex justify-between text-gray-400">
+              {label}
+              <span className="text-white">{format(profile[setting] ?? 0)}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={max}
+              step={step}
+              value={profile[setting] ?? 0}
+              onChange={e => handleSetting(setting, Number(e.target.value))}
+              className="w-full"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-gray-400">
+          Bet sizing:
+          <select
+            value={profile.sizing ?? 'standard'}
+            onChange={e => setProfile(prev => ({ ...prev, sizing: e.target.value as BetSizing }))}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+          >
+            {Object.entries(SIZING_LABELS).map(([sizing, label]) => (
+              <option key={sizing} value={sizing}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-400">
+          <input
+            type="checkbox"
+            checked={profile.adaptive ?? false}
+            onChange={e => setProfile(prev => ({ ...prev, adaptive: e.target.checked }))}
+          />
+          Adapts to your leaks
+        </label>
+        <label className="flex items-center gap-2 text-gray-400">
+          <input
+            type="checkbox"
+            checked={profile.balanced ?? false}
+            onChange={e => setProfile(prev => ({ ...prev, balanced: e.target.checked }))}
+          />
+          Plays preflop charts and balanced postflop
+        </label>
+      </div>
+      {profile.balanced && (
+        <p className="text-gray-500 text-xs">
+          Preflop play comes from the position charts and postflop bluffs are balanced against
+          value bets, so of the settings above only bet sizing changes how this profile plays.
+        </p>
+      )}
+
+      <div>
+        <span className="flex justify-between text-gray-400">
+          Preflop range the coach puts it on
+          <span>{getHandRangePercentage(parseHandRange(profile.range))}% of hands</span>
+        </span>
+        <input
+          type="text"
+          value={draft ?? profile.range}
+          onChange={e => setDraft(e.target.value)}
+          onBlur={applyDraft}
+          onKeyDown={e => e.key === 'Enter' && applyDraft()}
+          placeholder="e.g. 22+, A2s+, KTo+"
+          className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono text-xs"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={profile.name}
+          onChange={e => setProfile(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Name, e.g. Sticky River Caller"
+          className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!profile.name.trim()}
+          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white font-semibold"
+        >
+          Save
+        </button>
+      </div>
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      {savedProfiles.length > 0 && (
+        <ul className="space-y-1">
+          {savedProfiles.map(saved => (
+            <li key={saved.name} className="flex justify-between items-center">
+              <button
+                onClick={() => handleStartFrom(saved.name)}
+                className="text-left text-blue-300 hover:underline"
+              >
+                {saved.name}
+                <span className="text-gray-500">
+                  {' '}
+                  (VPIP {Math.round(saved.vpip)}%, PFR {Math.round(saved.pfr)}%)
+                </span>
+              </button>
+              <button
+                onClick={() => deleteProfile(saved.name)}
+                className="text-gray-500 hover:text-red-400"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-gray-500 text-xs">Pick saved profiles for seats in the table setup.</p>
+    </div>
+  );
+};
+
+export default ProfileEditor;
@@ -0,0 +1,5 @@
+/**
+ * Profile component exports
+ */
+
+export { default as ProfileEditor } from './ProfileEditor';
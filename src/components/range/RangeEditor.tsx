@@ -0,0 +1,137 @@
+/**
+ * Range editor component
+ * Paint a range on the grid or type it in standard notation, then save it
+ * under a name so other features (e.g. the odds panel) can use it
+ */
+
+import React, { useState } from 'react';
+import type { HandRange } from '../../types';
+import { useSavedRanges } from '../../hooks/useSavedRanges';
+import {
+  getHandRangePercentage,
+  parseHandRange,
+  serializeHandRange,
+} from '../../utils/handRanges';
+import RangeGrid from './RangeGrid';
+
+const PAINT_WEIGHTS = [1, 0.75, 0.5, 0.25];
+
+const RangeEditor: React.FC = () => {
+  const { savedRanges, saveRange, deleteRange } = useSavedRanges();
+  const [range, setRange] = useState<HandRange>({});
+  const [paintWeight, setPaintWeight] = useState(1);
+  const [name, setName] = useState('');
+  // Text being typed; null shows the range as painted
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyDraft = () => {
+    if (draft === null) return;
+    try {
+      setRange(parseHandRange(draft));
+      setDraft(null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Invalid range');
+    }
+  };
+
+  const handleGridChange = (next: HandRange) => {
+    setRange(next);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleLoad = (savedName: string) => {
+    const saved = savedRanges.find(s => s.name === savedName);
+    if (!saved) return;
+    handleGridChange(saved.range);
+    setName(saved.name);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border-2 border-gray-700 text-sm space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-white font-bold text-lg">Range Editor</h3>
+        <span className="text-gray-400">{getHandRangePercentage(range)}% of hands</span>
+      </div>
+
+      <RangeGrid range={range} onChange={handleGridChange} paintWeight={paintWeight} />
+
+      <div className="flex items-center gap-2">
+        <span className="text-gray-400">Paint:</span>
+        {PAINT_WEIGHTS.map(weight => (
+          <button
+            key={weight}
+            onClick={() => setPaintWeight(weight)}
+            className={`px-2 py-1 rounded ${
+              paintWeight === weight ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300'
+            }`}
+          >
+            {weight * 100}%
+          </button>
+        ))}
+        <button
+          onClick={() => handleGridChange({})}
+          className="ml-auto px-2 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div>
+        <input
+          type="text"
+          value={draft ?? serializeHandRange(range)}
+          onChange={e => setDraft(e.target.value)}
+          onBlur={applyDraft}
+          onKeyDown={e => e.key === 'Enter' && applyDraft()}
+          placeholder="e.g. 22+, A2s+, KTo+, QJs:0.5"
+          className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono text-xs"
+        />
+        {error && <p className="text-red-400 text-xs mt-1">{error}</p>}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Name, e.g. my BTN open"
+          className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+        />
+        <button
+          onClick={() => saveRange(name, range)}
+          disabled={!name.trim()}
+          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white font-semibold"
+        >
+          Save
+        </button>
+      </div>
+
+      {savedRanges.length > 0 && (
+        <ul className="space-y-1">
+          {savedRanges.map(saved => (
+            <li key={saved.name} className="flex justify-between items-center">
+              <button
+                onClick={() => handleLoad(saved.name)}
+                className="text-left text-blue-300 hover:underline"
+              >
+                {saved.name}
+                <span className="text-gray-500"> ({getHandRangePercentage(saved.range)}%)</span>
+              </button>
+              <button
+                onClick={() => deleteRange(saved.name)}
+                className="text-gray-500 hover:text-red-400"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RangeEditor;
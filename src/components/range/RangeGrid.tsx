@@ -0,0 +1,68 @@
+/**
+ * Range grid component
+ * The 169 starting hands as a 13x13 grid (pairs on the diagonal, suited above,
+ * offsuit below). Each cell fills up to its weight; with onChange, click or
+ * drag across cells to paint them in or out of the range.
+ */
+
+import React, { useState } from 'react';
+import type { HandRange } from '../../types';
+import { HAND_CLASSES } from '../../utils/handRanges';
+
+interface RangeGridProps {
+  range: HandRange;
+  onChange?: (range: HandRange) => void; // Omit for a read-only grid
+  paintWeight?: number; // Weight painted onto a cell (0-1)
+}
+
+const RangeGrid: React.FC<RangeGridProps> = ({ range, onChange, paintWeight = 1 }) => {
+  // Weight being painted while the mouse is held down, null when not painting
+  const [painting, setPainting] = useState<number | null>(null);
+
+  const setWeight = (handClass: string, weight: number) => {
+    if (!onChange || (range[handClass] ?? 0) === weight) return;
+    const next = { ...range };
+    if (weight > 0) next[handClass] = weight;
+    else delete next[handClass];
+    onChange(next);
+  };
+
+  const handleMouseDown = (handClass: string) => {
+    if (!onChange) return;
+    // Starting on a cell that already has this weight erases instead
+    const weight = (range[handClass] ?? 0) === paintWeight ? 0 : paintWeight;
+    setPainting(weight);
+    setWeight(handClass, weight);
+  };
+
+  return (
+    <div
+      className="grid grid-cols-13 gap-px bg-gray-900 p-px rounded select-none"
+      onMouseUp={() => setPainting(null)}
+      onMouseLeave={() => setPainting(null)}
+    >
+      {HAND_CLASSES.map(handClass => {
+        const weight = range[handClass] ?? 0;
+        const fill = `${Math.round(weight * 100)}%`;
+        return (
+          <div
+            key={handClass}
+            title={weight > 0 ? `${handClass}: ${Math.round(weight * 100)}%` : handClass}
+            className={`aspect-square flex items-center justify-center text-[10px] font-semibold ${
+              weight > 0 ? 'text-white' : 'text-gray-500'
+            } ${onChange ? 'cursor-pointer' : ''}`}
+            style={{
+              background: `linear-gradient(to top, rgb(22 163 74) ${fill}, rgb(55 65 81) ${fill})`,
+            }}
+            onMouseDown={() => handleMouseDown(handClass)}
+            onMouseEnter={() => painting !== null && setWeight(handClass, painting)}
+          >
+            {handClass}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RangeGrid;
@@ -0,0 +1,6 @@
+/**
+ * Range component exports
+ */
+
+export { default as RangeGrid } from './RangeGrid';
+export { default as RangeEditor } from './RangeEditor';
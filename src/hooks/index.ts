@@ -5,3 +5,7 @@
 export * from './useDeck';
 export * from './useHandHistory';
 export * from './useGameState';
+export * from './useEquity';
+export * from './useSavedRanges';
+export * from './useSavedProfiles';
+export * from './useCoach';
@@ -0,0 +1,61 @@
+/**
+ * Hook for asking the AI coach to analyze a finished hand
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { CoachAnalysis, HandHistory } from '../types';
+import { LLMFactory } from '../services/llm';
+import { getActiveLLMConfig } from '../config/llm.config';
+
+export interface UseCoachReturn {
+  analysis: CoachAnalysis | null;
+  isLoading: boolean;
+  error: string | null; // Why the last request failed, e.g. no API key set
+  requestAnalysis: (handHistory: HandHistory) => void;
+  clearAnalysis: () => void;
+}
+
+/**
+ * Hook for the coach's analysis of the latest hand
+ * Clearing drops the analysis and ignores any request still in flight.
+ */
+export function useCoach(): UseCoachReturn {
+  const [analysis, setAnalysis] = useState<CoachAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const requestAnalysis = useCallback(async (handHistory: HandHistory) => {
+    const requestId = ++requestIdRef.current;
+    setAnalysis(null);
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const coach = LLMFactory.createCoach(getActiveLLMConfig());
+      const result = await coach.analyzeHand(handHistory);
+      if (requestId === requestIdRef.current) setAnalysis(result);
+    } catch (err) {
+      if (requestId === requestIdRef.current) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  const clearAnalysis = useCallback(() => {
+    requestIdRef.current++;
+    setAnalysis(null);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    analysis,
+    isLoading,
+    error,
+    requestAnalysis,
+    clearAnalysis,
+  };
+}
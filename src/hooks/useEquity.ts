@@ -0,0 +1,74 @@
+/**
+ * Hook for live equity from the shared equity worker
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { Card, EquityResult, WeightedCombo } from '../types';
+import { requestEquity } from '../services/equity';
+
+export interface UseEquityReturn {
+  result: EquityResult | null; // Latest result for the current cards (null until the first batch)
+  isFinal: boolean; // No more refinement is coming
+  noCombos: boolean; // A range has nothing left to deal once blocked cards are removed
+}
+
+interface EquityInput {
+  heroCards: Card[];
+  communityCards: Card[];
+  opponents: number | WeightedCombo[][];
+}
+
+/**
+ * Hook for equity that refines itself as the worker runs more trials
+ * A change of cards or opponents cancels the calculation in progress.
+ * @param heroCards - Hero's hole cards (null or fewer than two skips the calculation)
+ * @param communityCards - Current community cards
+ * @param opponents - Number of opponents with random hands, or one range per opponent
+ * @param maxTrials - Trials to stop at when the equity cannot be counted exactly
+ */
+export function useEquity(
+  heroCards: Card[] | null | undefined,
+  communityCards: Card[],
+  opponents: number | WeightedCombo[][],
+  maxTrials: number = 20000
+): UseEquityReturn {
+  const [state, setState] = useState<{
+    input: EquityInput;
+    result: EquityResult | null;
+    isFinal: boolean;
+    noCombos: boolean;
+  } | null>(null);
+
+  const input = useMemo<EquityInput | null>(
+    () =>
+      heroCards && heroCards.length === 2 && (typeof opponents !== 'number' || opponents > 0)
+        ? { heroCards, communityCards, opponents }
+        : null,
+    [heroCards, communityCards, opponents]
+  );
+
+  useEffect(() => {
+    if (!input) return;
+
+    return requestEquity({ ...input, maxTrials }, response => {
+      if (response.type === 'error') {
+        console.error('Equity worker error:', response.message);
+        setState({ input, result: null, isFinal: true, noCombos: false });
+        return;
+      }
+      if (response.type === 'no-combos') {
+        setState({ input, result: null, isFinal: true, noCombos: true });
+        return;
+      }
+      setState({ input, result: response.result, isFinal: response.type === 'done', noCombos: false });
+    });
+  }, [input, maxTrials]);
+
+  // Results for older cards are never shown
+  const current = state && state.input === input ? state : null;
+  return {
+    result: current?.result ?? null,
+    isFinal: current?.isFinal ?? false,
+    noCombos: current?.noCombos ?? false,
+  };
+}
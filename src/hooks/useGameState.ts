@@ -1,317 +1,322 @@
 /**
  * Main game state management hook
+ * Wraps the pure PokerEngine and drives the AI opponents
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import type { GameState, Player, BetAction } from '../types';
-import { useDeck } from './useDeck';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type {
+  Action,
+  AllInCallSpot,
+  GameState,
+  BetAction,
+  DrawSpot,
+  HandResult,
+  SessionStats,
+  EngineEvent,
+  EngineResult,
+  HandHistory,
+  HudCounts,
+  PlayerPosition,
+  TableConfig,
+  TournamentStanding,
+} from '../types';
 import { useHandHistory } from './useHandHistory';
+import { generateRandomStack, roundChips } from '../utils/pokerLogic';
 import {
-  generateRandomStack,
-  getBlindPositions,
-  processPlayerAction,
-  isBettingRoundComplete,
-  getNextPlayerIndex,
-  collectBets,
-  isHandOver,
-  getFirstPreFlopPlayer,
-  getFirstPostFlopPlayer,
-  calculateMinRaise,
-} from '../utils/pokerLogic';
-import { AIOpponent, assignOpponentStyles } from '../services/ai';
-
-const SMALL_BLIND = 0.5;
-const BIG_BLIND = 1;
+  AIOpponent,
+  EMPTY_HUD_COUNTS,
+  assignOpponentStyles,
+  describeHeroReads,
+  describeOpponentRanges,
+  getPlayerStyle,
+  recordHudHand,
+} from '../services/ai';
+import {
+  applyAction,
+  applyBankrollRules,
+  createGame,
+  createPlayer,
+  createStanding,
+  generateOpponentStack,
+  getEliminations,
+  getSeatName,
+  rebuyHero,
+  recordFinish,
+  removeEliminatedPlayers,
+  setBlindLevel,
+  startHand,
+} from '../services/engine';
+import { BLIND_STRUCTURES, getBlindLevel } from '../utils/blindStructures';
+import { calculateAllInCallEV, calculateICM, isFacingAllIn } from '../utils/icm';
+import { getDrawSpot } from '../utils/impliedOdds';
+import { calculateEquityResult } from '../utils/oddsCalculator';
+import { getTablePosition } from '../utils/positions';
+import { createRandom, deriveSeed, generateSeed } from '../utils/random';
+
+// Salt for the random stream that seats replacement opponents
+const SEATING_SALT = 0x5ea7;
+// Salt for the random streams that simulate the hero's equity for the coach
+const COACH_SALT = 0xc0ac;
+// Trials for the hero's equity when judging an all-in call
+const ALL_IN_EQUITY_TRIALS = 5000;
+
+export const DEFAULT_TABLE_CONFIG: TableConfig = {
+  mode: 'cash',
+  seats: 4,
+  blinds: BLIND_STRUCTURES.cash,
+  anteType: 'per-player',
+  straddle: false,
+  maxBuyIn: 100,
+  autoTopUp: false,
+  tournament: { startingStack: 1500, buyIn: 10 },
+  adaptiveOpponent: false,
+  lineup: [],
+};
+
+const EMPTY_SESSION_STATS: SessionStats = {
+  handsPlayed: 0,
+  handsWon: 0,
+  totalProfit: 0,
+  gradesReceived: [],
+  rebuys: 0,
+  chipsAdded: 0,
+  opponentsBusted: 0,
+};
 
 export interface UseGameStateReturn {
   gameState: GameState;
-  startNewHand: () => void;
+  startNewHand: (seed?: number) => void;
+  startSession: (config: TableConfig, seed?: number) => void;
+  rebuy: () => void;
   handlePlayerAction: (action: BetAction) => void;
   isHeroTurn: boolean;
+  handResult: HandResult | null;
+  sessionStats: SessionStats;
+  heroHud: HudCounts; // The hero's HUD counts this session
+  sessionSeed: number;
+  tableConfig: TableConfig;
+  standing: TournamentStanding | null; // Tournament mode only
+  minutesPlayed: number; // Time since the first hand, as of the latest deal
+  getHandHistory: () => HandHistory | null; // The finished hand for the coach, null mid-hand
 }
 
 /**
  * Main hook for game state management
  */
 export function useGameState(): UseGameStateReturn {
-  const { deal, shuffleNewDeck } = useDeck();
-  const { addAction, clearHistory } = useHandHistory();
+  const { addAction, clearHistory, buildHandHistory } = useHandHistory();
+
+  const [session, setSession] = useState(() =>
+    initializeGame(generateSeed(), DEFAULT_TABLE_CONFIG)
+  );
+  const aiOpponentsMap = session.aiOpponents;
+
+  const [gameState, setGameState] = useState<GameState>(session.initialState);
+  const gameStateRef = useRef(session.initialState);
 
-  // Initialize AI opponents map outside of any closure
-  const [aiOpponentsMap] = useState(() => new Map<string, AIOpponent>());
+  const [sessionStats, setSessionStats] = useState<SessionStats>(EMPTY_SESSION_STATS);
+  const [standing, setStanding] = useState(() => createSessionStanding(DEFAULT_TABLE_CONFIG));
 
-  const [gameState, setGameState] = useState<GameState>(() => initializeGame());
+  // What adaptive opponents know about the hero
+  const [heroHud, setHeroHud] = useState<HudCounts>(EMPTY_HUD_COUNTS);
+  const heroHudRef = useRef(EMPTY_HUD_COUNTS);
+
+  // Clock for blind levels on a timer, started by the first hand
+  const clockStartRef = useRef<number | null>(null);
+  const [minutesPlayed, setMinutesPlayed] = useState(0);
+
+  // Draws and tournament all-ins the hero faced a bet with this hand, for the coach
+  const drawSpotsRef = useRef<DrawSpot[]>([]);
+  const allInCallsRef = useRef<AllInCallSpot[]>([]);
 
   /**
-   * Initialize a new game with 4 players
+   * React to what happened inside the engine
    */
-  function initializeGame(): GameState {
-    const players: Player[] = [
-      {
-        position: 'hero',
-        name: 'Hero',
-        stack: generateRandomStack(30, 200, BIG_BLIND),
-        holeCards: [],
-        currentBet: 0,
-        isFolded: false,
-        isAllIn: false,
-      },
-      {
-        position: 'opponent1',
-        name: 'Opponent 1',
-        stack: generateRandomStack(30, 200, BIG_BLIND),
-        holeCards: [],
-        currentBet: 0,
-        isFolded: false,
-        isAllIn: false,
-      },
-      {
-        position: 'opponent2',
-        name: 'Opponent 2',
-        stack: generateRandomStack(30, 200, BIG_BLIND),
-        holeCards: [],
-        currentBet: 0,
-        isFolded: false,
-        isAllIn: false,
-      },
-      {
-        position: 'opponent3',
-        name: 'Opponent 3',
-        stack: generateRandomStack(30, 200, BIG_BLIND),
-        holeCards: [],
-        currentBet: 0,
-        isFolded: false,
-        isAllIn: false,
-      },
-    ];
-
-    const blinds = getBlindPositions(players.length, 0);
-
-    return {
-      phase: 'waiting',
-      bettingRound: 'preflop',
-      pot: 0,
-      communityCards: [],
-      players,
-      currentPlayerIndex: 0,
-      dealerButtonIndex: blinds.dealer,
-      smallBlindIndex: blinds.smallBlind,
-      bigBlindIndex: blinds.bigBlind,
-      smallBlind: SMALL_BLIND,
-      bigBlind: BIG_BLIND,
-      currentBet: 0,
-      minRaise: BIG_BLIND * 2,
-      actionHistory: [],
-    };
-  }
+  const handleEvents = useCallback((events: EngineEvent[]) => {
+    for (const event of events) {
+      switch (event.type) {
+        case 'hand-started':
+          clearHistory();
+          drawSpotsRef.current = [];
+          allInCallsRef.current = [];
+          break;
+        case 'action':
+          addAction(event.action);
+          break;
+        case 'hand-complete':
+          setSessionStats(prev => recordHandResult(prev, event.result));
+          break;
+        case 'seat-replaced': {
+          const aiOpponent = new AIOpponent(event.profile ?? getPlayerStyle(event.style));
+          aiOpponent.observeHero(heroHudRef.current);
+          aiOpponentsMap.set(event.player, aiOpponent);
+          setSessionStats(prev => recordBankrollEvent(prev, event));
+          break;
+        }
+        case 'rebuy':
+        case 'top-up':
+          setSessionStats(prev => recordBankrollEvent(prev, event));
+          break;
+        case 'player-eliminated':
+        case 'tournament-complete':
+          setStanding(prev => prev && recordFinish(prev, event));
+          break;
+      }
+    }
+  }, [addAction, clearHistory, aiOpponentsMap]);
 
   /**
-   * Start a new hand
+   * Run an engine transition against the latest state
    */
-  const startNewHand = useCallback(() => {
-    clearHistory();
-    shuffleNewDeck();
-
-    // Initialize AI opponents if not already done
-    if (aiOpponentsMap.size === 0) {
-      const opponentStyles = assignOpponentStyles();
-      opponentStyles.forEach((styleConfig, index) => {
-        const position = `opponent${index + 1}`;
-        aiOpponentsMap.set(position, new AIOpponent(styleConfig));
-      });
+  const runTransition = useCallback((transition: (state: GameState) => EngineResult) => {
+    const previous = gameStateRef.current;
+    let result: EngineResult;
+    try {
+      result = transition(previous);
+    } catch (error) {
+      // Illegal actions are rejected and leave the state untouched
+      console.error('Rejected game action:', error);
+      return;
     }
 
-    setGameState(prev => {
-      // Move dealer button
-      const newDealerIndex = (prev.dealerButtonIndex + 1) % prev.players.length;
-      const blinds = getBlindPositions(prev.players.length, newDealerIndex);
-
-      // Update player names with styles on first hand
-      let resetPlayers = prev.players.map(p => ({
-        ...p,
-        holeCards: [],
-        currentBet: 0,
-        isFolded: false,
-        isAllIn: false,
-      }));
-
-      // Set AI opponent names and styles from their configs
-      if (prev.phase === 'waiting') {
-        const opponentPositions = ['opponent1', 'opponent2', 'opponent3'];
-        resetPlayers = resetPlayers.map(player => {
-          if (opponentPositions.includes(player.position)) {
-            const aiOpponent = aiOpponentsMap.get(player.position);
-            if (aiOpponent) {
-              const styleConfig = (aiOpponent as any).styleConfig;
-              return {
-                ...player,
-                name: styleConfig.name,
-                style: styleConfig.style,
-              };
-            }
-          }
-          return player;
-        });
-      }
+    const { state } = result;
+    let { events } = result;
 
-      // Deal hole cards
-      const playersWithCards = resetPlayers.map(player => ({
-        ...player,
-        holeCards: deal(2),
-      }));
-
-      // Post blinds
-      const updatedPlayers = playersWithCards.map((player, index) => {
-        if (index === blinds.smallBlind) {
-          const sbAmount = Math.min(SMALL_BLIND, player.stack);
-          return {
-            ...player,
-            stack: player.stack - sbAmount,
-            currentBet: sbAmount,
-            isAllIn: player.stack === sbAmount,
-          };
-        }
-        if (index === blinds.bigBlind) {
-          const bbAmount = Math.min(BIG_BLIND, player.stack);
-          return {
-            ...player,
-            stack: player.stack - bbAmount,
-            currentBet: bbAmount,
-            isAllIn: player.stack === bbAmount,
-          };
-        }
-        return player;
-      });
+    // In a tournament, record who a finished hand knocked out
+    if (session.config.mode === 'tournament' && events.some(e => e.type === 'hand-complete')) {
+      events = [...events, ...getEliminations(state)];
+    }
 
-      // First player to act is after big blind (pre-flop)
-      const firstPlayer = getFirstPreFlopPlayer(updatedPlayers.length, blinds.bigBlind);
+    // Note the draw or all-in the hero just acted on while the bet they faced is still known
+    const heroAction = events.find(e => e.type === 'action' && e.action.player === 'hero');
+    if (heroAction?.type === 'action') {
+      const drawSpot = getDrawSpot(previous, previous.currentPlayerIndex);
+      if (drawSpot) drawSpotsRef.current = [...drawSpotsRef.current, drawSpot];
 
-      return {
-        ...prev,
-        phase: 'betting',
-        bettingRound: 'preflop',
-        pot: 0,
-        communityCards: [],
-        players: updatedPlayers,
-        currentPlayerIndex: firstPlayer,
-        dealerButtonIndex: newDealerIndex,
-        smallBlindIndex: blinds.smallBlind,
-        bigBlindIndex: blinds.bigBlind,
-        currentBet: BIG_BLIND,
-        minRaise: BIG_BLIND * 2,
-        actionHistory: [],
-      };
-    });
-  }, [deal, shuffleNewDeck, clearHistory, aiOpponentsMap]);
+      const allInCall = standing && getAllInCallSpot(previous, heroAction.action, standing.prizes);
+      if (allInCall) allInCallsRef.current = [...allInCallsRef.current, allInCall];
+    }
+
+    // Adaptive opponents learn from every finished hand; big losses can tilt the others
+    if (events.some(e => e.type === 'hand-complete')) {
+      const counts = recordHudHand(heroHudRef.current, state, 'hero');
+      heroHudRef.current = counts;
+      setHeroHud(counts);
+      aiOpponentsMap.forEach((aiOpponent, position) => {
+        aiOpponent.observeHero(counts);
+        aiOpponent.recordResult(state.handResult?.netResults.get(position) ?? 0, state.bigBlind);
+      });
+    }
+
+    gameStateRef.current = state;
+    setGameState(state);
+    handleEvents(events);
+  }, [handleEvents, session.config.mode, aiOpponentsMap, standing]);
 
   /**
-   * Handle a player action
+   * Start a new hand
+   * Blinds move to the scheduled level, then busted players are replaced (cash
+   * games, topping up the hero if enabled) or removed (tournaments).
+   * Hands are seeded from the session seed unless a seed is given (e.g. to replay a shared hand)
    */
-  const handlePlayerAction = useCallback((action: BetAction) => {
-    setGameState(prev => {
-      const currentPlayer = prev.players[prev.currentPlayerIndex];
-
-      // Process the action
-      const { updatedPlayer, potIncrease, newCurrentBet } = processPlayerAction(
-        action,
-        currentPlayer,
-        prev
-      );
-
-      // Update players array
-      const updatedPlayers = prev.players.map((p, index) =>
-        index === prev.currentPlayerIndex ? updatedPlayer : p
+  const startNewHand = useCallback((seed?: number) => {
+    const now = Date.now();
+    clockStartRef.current ??= now;
+    const minutes = (now - clockStartRef.current) / 60000;
+    setMinutesPlayed(minutes);
+
+    runTransition(state => {
+      const handNumber = state.handNumber + 1;
+      const leveled = setBlindLevel(
+        state,
+        getBlindLevel(session.config.blinds, handNumber, minutes)
       );
+      const seated = session.config.mode === 'tournament'
+        ? { state: removeEliminatedPlayers(leveled), events: [] }
+        : applyBankrollRules(
+            leveled,
+            session.config,
+            createRandom(deriveSeed(session.seed, handNumber, SEATING_SALT))
+          );
+      const dealt = startHand(seated.state, seed ?? deriveSeed(session.seed, handNumber));
+      return { state: dealt.state, events: [...seated.events, ...dealt.events] };
+    });
+  }, [runTransition, session.seed, session.config]);
 
-      // Record action
-      const actionRecord = {
-        player: currentPlayer.position,
-        playerName: currentPlayer.name,
-        action: action.type,
-        amount: action.amount || 0,
-        timestamp: Date.now(),
-        bettingRound: prev.bettingRound,
-      };
-      addAction(actionRecord);
-
-      const newPot = prev.pot + potIncrease;
-      const newMinRaise = calculateMinRaise(newCurrentBet, newCurrentBet - prev.currentBet, BIG_BLIND);
-
-      // Check if hand is over (only one player left)
-      if (isHandOver(updatedPlayers)) {
-        return {
-          ...prev,
-          phase: 'showdown',
-          players: updatedPlayers,
-          pot: newPot,
-          currentBet: newCurrentBet,
-          minRaise: newMinRaise,
-          actionHistory: [...prev.actionHistory, actionRecord],
-        };
-      }
+  /**
+   * Buy the hero back in after going broke
+   */
+  const rebuy = useCallback(() => {
+    runTransition(state => rebuyHero(state, session.config));
+  }, [runTransition, session.config]);
 
-      // Check if betting round is complete
-      if (isBettingRoundComplete(updatedPlayers, newCurrentBet)) {
-        // Collect bets into pot
-        const { players: playersAfterCollection, pot: collectedPot } = collectBets(updatedPlayers);
-        const totalPot = newPot + collectedPot;
-
-        // Move to next betting round
-        const nextRound = getNextBettingRound(prev.bettingRound);
-
-        if (nextRound === 'complete') {
-          // Showdown
-          return {
-            ...prev,
-            phase: 'showdown',
-            players: playersAfterCollection,
-            pot: totalPot,
-            currentBet: 0,
-            actionHistory: [...prev.actionHistory, actionRecord],
-          };
-        }
+  /**
+   * Sit down at a new table, discarding the current session
+   */
+  const startSession = useCallback((config: TableConfig, seed: number = generateSeed()) => {
+    const next = initializeGame(seed, config);
+    gameStateRef.current = next.initialState;
+    setSession(next);
+    setGameState(next.initialState);
+    setSessionStats(EMPTY_SESSION_STATS);
+    setStanding(createSessionStanding(config));
+    heroHudRef.current = EMPTY_HUD_COUNTS;
+    setHeroHud(EMPTY_HUD_COUNTS);
+    clockStartRef.current = null;
+    setMinutesPlayed(0);
+    drawSpotsRef.current = [];
+    allInCallsRef.current = [];
+    clearHistory();
+  }, [clearHistory]);
 
-        // Deal community cards for next round
-        let newCommunityCards = [...prev.communityCards];
-        if (nextRound === 'flop') {
-          newCommunityCards = deal(3);
-        } else if (nextRound === 'turn' || nextRound === 'river') {
-          newCommunityCards = [...prev.communityCards, ...deal(1)];
-        }
+  /**
+   * Handle a player action
+   */
+  const handlePlayerAction = useCallback((action: BetAction) => {
+    runTransition(state => applyAction(state, action));
+  }, [runTransition]);
 
-        // First to act post-flop is after dealer
-        const firstPlayer = getFirstPostFlopPlayer(
-          playersAfterCollection.length,
-          prev.dealerButtonIndex
-        );
-
-        return {
-          ...prev,
-          bettingRound: nextRound,
-          communityCards: newCommunityCards,
-          players: playersAfterCollection,
-          pot: totalPot,
-          currentBet: 0,
-          minRaise: BIG_BLIND,
-          currentPlayerIndex: firstPlayer,
-          actionHistory: [...prev.actionHistory, actionRecord],
-        };
+  /**
+   * Build the finished hand for the coach, with the opponents' ranges and reads
+   */
+  const getHandHistory = useCallback((): HandHistory | null => {
+    const state = gameStateRef.current;
+    const heroIndex = state.players.findIndex(p => p.position === 'hero');
+    const hero = state.players[heroIndex];
+    if (state.phase !== 'showdown' || !state.handResult || !hero) return null;
+
+    const { handResult, communityCards, players } = state;
+    return buildHandHistory(
+      hero.holeCards,
+      communityCards,
+      handResult.potAmount,
+      new Map(players.map(p => [p.position, p.startingStack])),
+      handResult.winner,
+      handResult.winningHand?.cards ?? [],
+      getTablePosition(heroIndex, state.dealerButtonIndex, players.length),
+      players.length,
+      {
+        opponentRanges: describeOpponentRanges(
+          hero.holeCards,
+          communityCards,
+          players,
+          createRandom(deriveSeed(state.handSeed ?? 0, COACH_SALT))
+        ),
+        heroReads: describeHeroReads(state),
+        drawSpots: drawSpotsRef.current,
+        tournament: standing
+          ? {
+              prizes: standing.prizes,
+              heroPrizeEquity: calculateICM(
+                players.map(p => p.startingStack),
+                standing.prizes
+              )[heroIndex],
+              allInCalls: allInCallsRef.current,
+            }
+          : undefined,
       }
-
-      // Move to next player
-      const nextPlayerIndex = getNextPlayerIndex(updatedPlayers, prev.currentPlayerIndex);
-
-      return {
-        ...prev,
-        players: updatedPlayers,
-        pot: newPot,
-        currentBet: newCurrentBet,
-        minRaise: newMinRaise,
-        currentPlayerIndex: nextPlayerIndex,
-        actionHistory: [...prev.actionHistory, actionRecord],
-      };
-    });
-  }, [addAction, deal]);
+    );
+  }, [buildHandHistory, standing]);
 
   /**
    * Process AI opponent turn
@@ -331,7 +336,11 @@ export function useGameState(): UseGameStateReturn {
       const timeoutId = setTimeout(() => {
         const aiOpponent = aiOpponentsMap.get(currentPlayer.position);
         if (aiOpponent) {
-          const action = aiOpponent.decide(currentPlayer, gameState);
+          // Seed each decision from the hand so replaying the hand replays the AI too
+          const random = createRandom(
+            deriveSeed(gameState.handSeed ?? 0, gameState.actionHistory.length)
+          );
+          const action = aiOpponent.decide(currentPlayer, gameState, random);
           handlePlayerAction(action);
         }
       }, 1000); // 1 second delay
@@ -348,25 +357,154 @@ export function useGameState(): UseGameStateReturn {
   return {
     gameState,
     startNewHand,
+    startSession,
+    rebuy,
     handlePlayerAction,
     isHeroTurn,
+    handResult: gameState.handResult,
+    sessionStats,
+    heroHud,
+    sessionSeed: session.seed,
+    tableConfig: session.config,
+    standing,
+    minutesPlayed,
+    getHandHistory,
   };
 }
 
 /**
- * Get next betting round
+ * Seat the hero and the AI opponents with stacks and styles drawn from the session seed
+ * The hero takes seat 0 and opponents fill the remaining seats clockwise. Seats with
+ * a profile in the lineup play it; the adaptive opponent, when asked for, takes the
+ * first seat left to chance.
+ * Cash game stacks are random; tournament stacks are all equal.
  */
-function getNextBettingRound(current: string): 'flop' | 'turn' | 'river' | 'complete' {
-  switch (current) {
-    case 'preflop':
-      return 'flop';
-    case 'flop':
-      return 'turn';
-    case 'turn':
-      return 'river';
-    case 'river':
-      return 'complete';
-    default:
-      return 'complete';
+function initializeGame(seed: number, config: TableConfig): {
+  seed: number;
+  config: TableConfig;
+  initialState: GameState;
+  aiOpponents: Map<PlayerPosition, AIOpponent>;
+} {
+  const random = createRandom(seed);
+  const level = config.blinds.levels[0];
+  const aiOpponents = new Map<PlayerPosition, AIOpponent>();
+  const isTournament = config.mode === 'tournament';
+  const players = [
+    createPlayer(
+      'hero',
+      0,
+      'Hero',
+      isTournament
+        ? config.tournament.startingStack
+        : generateRandomStack(30, 200, level.bigBlind, random)
+    ),
+  ];
+
+  const styles = assignOpponentStyles(config.seats - 1, random);
+  const profiles = styles.map((_, index) => config.lineup[index] ?? null);
+  if (config.adaptiveOpponent) {
+    const seat = profiles.indexOf(null);
+    if (seat >= 0) profiles[seat] = getPlayerStyle('adaptive');
   }
+
+  styles.forEach((randomStyle, index) => {
+    const seat = index + 1;
+    const position: PlayerPosition = `opponent${seat}`;
+    const styleConfig = profiles[index] ?? randomStyle;
+
+    aiOpponents.set(position, new AIOpponent(styleConfig));
+    players.push(
+      createPlayer(
+        position,
+        seat,
+        getSeatName(styleConfig.name, players),
+        isTournament
+          ? config.tournament.startingStack
+          : generateOpponentStack(level.bigBlind, random),
+        styleConfig.style,
+        profiles[index] ?? undefined
+      )
+    );
+  });
+
+  return {
+    seed,
+    config,
+    initialState: createGame(players, {
+      ...level,
+      anteType: config.anteType,
+      straddle: config.straddle,
+    }),
+    aiOpponents,
+  };
+}
+
+/**
+ * Add a finished hand to the session stats
+ */
+function recordHandResult(stats: SessionStats, result: HandResult): SessionStats {
+  return {
+    ...stats,
+    handsPlayed: stats.handsPlayed + 1,
+    handsWon: stats.handsWon + (result.winners.includes('hero') ? 1 : 0),
+    totalProfit: roundChips(stats.totalProfit + (result.netResults.get('hero') ?? 0)),
+  };
+}
+
+/**
+ * Add a rebuy, top-up or replaced opponent to the session stats
+ */
+function recordBankrollEvent(
+  stats: SessionStats,
+  event: Extract<EngineEvent, { type: 'rebuy' | 'top-up' | 'seat-replaced' }>
+): SessionStats {
+  switch (event.type) {
+    case 'rebuy':
+      return {
+        ...stats,
+        rebuys: stats.rebuys + 1,
+        chipsAdded: roundChips(stats.chipsAdded + event.amount),
+      };
+    case 'top-up':
+      return { ...stats, chipsAdded: roundChips(stats.chipsAdded + event.amount) };
+    case 'seat-replaced':
+      return { ...stats, opponentsBusted: stats.opponentsBusted + 1 };
+  }
+}
+
+/**
+ * Judge an all-in the hero faced by prize money, or null if the action was not
+ * facing one
+ * Equity is against random hands for every opponent still in, like the odds panel.
+ */
+function getAllInCallSpot(
+  state: GameState,
+  action: Action,
+  prizes: number[]
+): AllInCallSpot | null {
+  const heroIndex = state.currentPlayerIndex;
+  if (!isFacingAllIn(state, heroIndex)) return null;
+
+  const hero = state.players[heroIndex];
+  const opponents = state.players.filter(p => p.position !== 'hero' && !p.isFolded).length;
+  const { equity } = calculateEquityResult(hero.holeCards, state.communityCards, opponents, {
+    iterations: ALL_IN_EQUITY_TRIALS,
+    random: createRandom(deriveSeed(state.handSeed ?? 0, state.actionHistory.length, COACH_SALT)),
+  });
+
+  return {
+    ...calculateAllInCallEV(state, heroIndex, equity, prizes),
+    round: state.bettingRound,
+    equity,
+    called: action.action !== 'fold',
+  };
+}
+
+/**
+ * Standings for a tournament session, or null for a cash game
+ */
+function createSessionStanding(config: TableConfig): TournamentStanding | null {
+  return config.mode === 'tournament'
+    ? createStanding(config.seats, config.tournament.buyIn)
+    : null;
 }
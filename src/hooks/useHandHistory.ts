@@ -3,7 +3,14 @@
  */
 
 import { useState, useCallback } from 'react';
-import type { Action, Card, PlayerPosition, HandHistory } from '../types';
+import type {
+  Action,
+  Card,
+  PlayerPosition,
+  HandHistory,
+  HandHistoryDetails,
+  TablePosition,
+} from '../types';
 
 export interface UseHandHistoryReturn {
   actions: Action[];
@@ -15,7 +22,10 @@ export interface UseHandHistoryReturn {
     pot: number,
     playerStacks: Map<PlayerPosition, number>,
     winner: PlayerPosition,
-    winningCards: Card[]
+    winningCards: Card[],
+    heroPosition: TablePosition,
+    tableSize: number,
+    details?: HandHistoryDetails
   ) => HandHistory;
 }
 
@@ -49,16 +59,22 @@ export function useHandHistory(): UseHandHistoryReturn {
       pot: number,
       playerStacks: Map<PlayerPosition, number>,
       winner: PlayerPosition,
-      winningCards: Card[]
+      winningCards: Card[],
+      heroPosition: TablePosition,
+      tableSize: number,
+      details: HandHistoryDetails = {}
     ): HandHistory => {
       return {
         heroCards,
+        heroPosition,
+        tableSize,
         communityCards,
         actions,
         pot,
         playerStacks,
         winner,
         winningCards,
+        ...details,
       };
     },
     [actions]
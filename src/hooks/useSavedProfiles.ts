@@ -0,0 +1,31 @@
+/**
+ * Hook for the user's saved opponent profiles
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { PlayerStyleConfig } from '../types';
+import {
+  deleteSavedProfile,
+  getSavedProfiles,
+  saveProfile,
+  subscribeSavedProfiles,
+} from '../services/storage';
+
+export interface UseSavedProfilesReturn {
+  savedProfiles: PlayerStyleConfig[];
+  saveProfile: (profile: PlayerStyleConfig) => void;
+  deleteProfile: (name: string) => void;
+}
+
+/**
+ * Hook for saved profiles, shared by every component that uses it
+ */
+export function useSavedProfiles(): UseSavedProfilesReturn {
+  const savedProfiles = useSyncExternalStore(subscribeSavedProfiles, getSavedProfiles);
+
+  return {
+    savedProfiles,
+    saveProfile,
+    deleteProfile: deleteSavedProfile,
+  };
+}
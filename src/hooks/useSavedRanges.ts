@@ -0,0 +1,31 @@
+/**
+ * Hook for the user's saved ranges
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { HandRange, SavedRange } from '../types';
+import {
+  deleteSavedRange,
+  getSavedRanges,
+  saveRange,
+  subscribeSavedRanges,
+} from '../services/storage';
+
+export interface UseSavedRangesReturn {
+  savedRanges: SavedRange[];
+  saveRange: (name: string, range: HandRange) => void;
+  deleteRange: (name: string) => void;
+}
+
+/**
+ * Hook for saved ranges, shared by every component that uses it
+ */
+export function useSavedRanges(): UseSavedRangesReturn {
+  const savedRanges = useSyncExternalStore(subscribeSavedRanges, getSavedRanges);
+
+  return {
+    savedRanges,
+    saveRange,
+    deleteRange: deleteSavedRange,
+  };
+}
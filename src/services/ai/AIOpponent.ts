@@ -2,32 +2,94 @@
  * AI Opponent decision-making engine
  */
 
-import type { Player, BetAction, Card, GameState, PlayerStyleConfig } from '../../types';
-import { evaluateHand } from '../../utils/handEvaluator';
-import { calculatePotOdds } from '../../utils/oddsCalculator';
-import { hasReachedRaiseCap } from '../../utils/pokerLogic';
+import type {
+  Player,
+  BetAction,
+  Card,
+  GameState,
+  HudCounts,
+  LegalActions,
+  PlayerPosition,
+  PlayerStyleConfig,
+  RandomSource,
+  TablePosition,
+  WeightedCombo,
+} from '../../types';
+import { analyzeBoardTexture, isFlushPossible } from '../../utils/boardTexture';
+import {
+  calculateEquityResult,
+  calculateEquityVsRanges,
+  calculatePotOdds,
+} from '../../utils/oddsCalculator';
+import { getLegalActions, hasReachedRaiseCap } from '../../utils/pokerLogic';
+import { getTablePosition } from '../../utils/positions';
 import {
   evaluatePreFlopHand,
-  getPositionCategory,
   shouldPlayHand,
   shouldRaiseHand,
 } from './handStrength';
+import { readPlayerRange } from './handReading';
+import { NO_EXPLOITS, applyExploits, getExploitAdjustments } from './exploits';
+import type { ExploitAdjustments } from './exploits';
+import { getPreflopRaiser, getPreflopRaises } from './hud';
+import { SIZING_MULTIPLIERS, TILT_HANDS, TILT_LOSS_BB, applyTilt } from './profiles';
+import { decideFromCharts } from './charts';
+import { decideBalanced } from './balanced';
+
+// Postflop equity is simulated unless few outcomes remain (e.g. on the river)
+const POSTFLOP_TRIALS = 600;
+const POSTFLOP_EXACT_LIMIT = 25000;
 
 export class AIOpponent {
-  private styleConfig: PlayerStyleConfig;
+  private baseStyle: PlayerStyleConfig;
+  private styleConfig: PlayerStyleConfig; // Base style with any exploits and tilt applied
+  private exploits: ExploitAdjustments = NO_EXPLOITS;
+  private tiltHands = 0; // Hands of tilt left after a big loss
 
   constructor(styleConfig: PlayerStyleConfig) {
+    this.baseStyle = styleConfig;
     this.styleConfig = styleConfig;
   }
 
   /**
-   * Main decision method - determines what action the AI should take
+   * Show the AI the hero's HUD counts so far; adaptive styles adjust to them
+   * @param counts - The hero's counts this session
+   */
+  public observeHero(counts: HudCounts): void {
+    if (!this.baseStyle.adaptive) return;
+    this.exploits = getExploitAdjustments(counts);
+    this.updateStyle();
+  }
+
+  /**
+   * Tell the AI how its last hand went; styles prone to tilt loosen up after a big loss
+   * @param net - The AI's stack change over the hand
+   * @param bigBlind - Big blind the hand was played at
    */
-  public decide(player: Player, gameState: GameState): BetAction {
-    const { bettingRound, currentBet, pot, communityCards, players, actionHistory } = gameState;
+  public recordResult(net: number, bigBlind: number): void {
+    if (!this.baseStyle.tilt) return;
+    if (net <= -TILT_LOSS_BB * bigBlind) {
+      this.tiltHands = TILT_HANDS;
+    } else if (this.tiltHands > 0) {
+      this.tiltHands--;
+    }
+    this.updateStyle();
+  }
+
+  private updateStyle(): void {
+    const exploiting = applyExploits(this.baseStyle, this.exploits);
+    this.styleConfig = this.tiltHands > 0
+      ? applyTilt(exploiting, this.tiltHands / TILT_HANDS)
+      : exploiting;
+  }
 
-    // Check if any player has gone all-in (prevents normal raises after all-in)
-    const hasAllInPlayer = players.some(p => p.isAllIn);
+  /**
+   * Main decision method - determines what action the AI should take
+   * @param random - Random source for mixed decisions (seed it to replay a hand)
+   */
+  public decide(player: Player, gameState: GameState, random: RandomSource = Math.random): BetAction {
+    const { bettingRound, players, actionHistory } = gameState;
+    const legal = getLegalActions(gameState);
 
     // Check if raise cap has been reached (prevents endless raising wars)
     const raiseCapReached = hasReachedRaiseCap(
@@ -35,20 +97,67 @@ export class AIOpponent {
       bettingRound
     );
 
-    // Can't make normal raises if someone is all-in or cap reached
-    const canRaise = !hasAllInPlayer && !raiseCapReached;
+    // Only raise when the rules allow it and the cap is not reached
+    const canRaise = legal.canRaise && !raiseCapReached;
 
-    // Get player index
+    // Get named position for this hand
     const playerIndex = players.findIndex(p => p.position === player.position);
-    const dealerIndex = gameState.dealerButtonIndex;
+    const position = getTablePosition(playerIndex, gameState.dealerButtonIndex, players.length);
 
     // Pre-flop decisions
-    if (bettingRound === 'preflop') {
-      return this.decidePreFlop(player, currentBet, pot, playerIndex, dealerIndex, canRaise);
-    }
+    const decision = bettingRound === 'preflop'
+      ? this.decidePreFlop(player, gameState, position, canRaise, random)
+      : this.decidePostFlop(player, gameState, canRaise, random);
+
+    return this.toLegalAction(decision, player, legal, canRaise);
+  }
+
+  /**
+   * What this AI puts another player on, from their actions so far this hand
+   * @param player - The AI's own player (its hole cards are blockers)
+   * @param gameState - Current state
+   * @param position - Player to read
+   */
+  public readRange(player: Player, gameState: GameState, position: PlayerPosition): WeightedCombo[] {
+    return readPlayerRange(gameState, position, player.holeCards);
+  }
 
-    // Post-flop decisions
-    return this.decidePostFlop(player, currentBet, pot, communityCards, canRaise);
+  /**
+   * Turn a decision into an action the engine will accept
+   */
+  private toLegalAction(
+    decision: BetAction,
+    player: Player,
+    legal: LegalActions,
+    canRaise: boolean
+  ): BetAction {
+    switch (decision.type) {
+      case 'fold':
+        // Never fold when checking is free
+        return legal.canCheck ? { type: 'check' } : decision;
+      case 'check':
+        return legal.canCheck ? decision : { type: 'fold' };
+      case 'call':
+        return legal.canCall ? { type: 'call', amount: legal.callAmount } : { type: 'check' };
+      case 'raise': {
+        if (!canRaise) {
+          return legal.canCheck ? { type: 'check' } : { type: 'call', amount: legal.callAmount };
+        }
+        const raiseTo = Math.max(decision.amount ?? 0, legal.minRaiseTo);
+        if (raiseTo >= legal.maxRaiseTo) {
+          return { type: 'all-in', amount: legal.maxRaiseTo };
+        }
+        return { type: 'raise', amount: raiseTo };
+      }
+      case 'all-in':
+        // Shoving more than a call needs the raise to be allowed
+        if (player.stack > legal.callAmount && !legal.canRaise) {
+          return { type: 'call', amount: legal.callAmount };
+        }
+        return { type: 'all-in', amount: legal.maxRaiseTo };
+      default:
+        return decision;
+    }
   }
 
   /**
@@ -56,19 +165,24 @@ export class AIOpponent {
    */
   private decidePreFlop(
     player: Player,
-    currentBet: number,
-    pot: number,
-    playerIndex: number,
-    dealerIndex: number,
-    canRaise: boolean
+    gameState: GameState,
+    position: TablePosition,
+    canRaise: boolean,
+    random: RandomSource
   ): BetAction {
+    // Balanced styles play straight from the charts
+    if (this.styleConfig.balanced) {
+      return decideFromCharts(player, gameState, position, random);
+    }
+
+    const { currentBet, pot } = gameState;
+    const { threeBet, foldToThreeBet } = this.styleConfig;
     const [card1, card2] = player.holeCards;
 
     // Evaluate hand strength
     const { score } = evaluatePreFlopHand(card1, card2);
 
     // Adjust for position
-    const position = getPositionCategory(playerIndex, dealerIndex, 4);
     const positionMultiplier = this.getPositionMultiplier(position);
     const adjustedScore = score * positionMultiplier;
 
@@ -85,18 +199,33 @@ export class AIOpponent {
 
     // No bet yet - check or raise
     if (currentBet === player.currentBet) {
-      if (shouldRaise && this.shouldBeAggressive()) {
-        return this.determineRaiseSize(player, pot, adjustedScore);
+      if (shouldRaise && this.shouldBeAggressive(random)) {
+        return this.determineRaiseSize(player, currentBet, pot, adjustedScore);
       }
       return { type: 'check' };
     }
 
     // Facing a bet/raise
-    if (shouldRaise && adjustedScore >= 75) {
-      // Re-raise with strong hands (only if normal raising is allowed)
-      return this.determineRaiseSize(player, pot, adjustedScore);
-    } else if (!canRaise && adjustedScore >= 85 && this.shouldBeAggressive()) {
-      // Someone is all-in but we have a premium hand - go all-in ourselves
+    const raises = getPreflopRaises(gameState);
+    if (
+      foldToThreeBet !== undefined &&
+      adjustedScore < 85 &&
+      raises.some(a => a.player === player.position) &&
+      random() * 100 < foldToThreeBet
+    ) {
+      // Our raise was re-raised: let some of it go, premium hands aside
+      return { type: 'fold' };
+    }
+    // Re-raising a single raise follows the style's 3-bet share when it has one
+    const shouldReraise = threeBet !== undefined && raises.length === 1
+      ? canRaise && shouldRaiseHand(score, threeBet, positionMultiplier)
+      : shouldRaise && adjustedScore >= 75;
+
+    if (shouldReraise) {
+      // Re-raise with strong hands (only if raising is allowed)
+      return this.determineRaiseSize(player, currentBet, pot, adjustedScore);
+    } else if (!canRaise && adjustedScore >= 85 && this.shouldBeAggressive(random)) {
+      // Can't raise normally but we have a premium hand - go all-in ourselves
       return { type: 'all-in' };
     } else if (adjustedScore >= 50 || this.shouldCall(callAmount, pot, adjustedScore)) {
       // Call with medium hands or good pot odds
@@ -106,73 +235,139 @@ export class AIOpponent {
     }
   }
 
+  /**
+   * Equity against the ranges read for the other players
+   * Narrow reads can run out of combos once cards are blocked, or leave ranges
+   * that cannot be dealt together; equity against random hands stands in then.
+   */
+  private getEquity(
+    player: Player,
+    gameState: GameState,
+    opponents: Player[],
+    random: RandomSource
+  ): number {
+    const options = { iterations: POSTFLOP_TRIALS, exactLimit: POSTFLOP_EXACT_LIMIT, random };
+    try {
+      return calculateEquityVsRanges(
+        player.holeCards,
+        gameState.communityCards,
+        opponents.map(p => this.readRange(player, gameState, p.position)),
+        options
+      ).equity;
+    } catch {
+      return calculateEquityResult(player.holeCards, gameState.communityCards, opponents.length, options)
+        .equity;
+    }
+  }
+
   /**
    * Post-flop decision making
+   * Equity against the ranges this AI has read for the other players, measured against
+   * the pot odds and thresholds set by the style; board texture and the
+   * stack-to-pot ratio decide how hard to push it. Balanced styles mix their
+   * bets and bluffs by frequency instead.
    */
   private decidePostFlop(
     player: Player,
-    currentBet: number,
-    pot: number,
-    communityCards: Card[],
-    canRaise: boolean
+    gameState: GameState,
+    canRaise: boolean,
+    random: RandomSource
   ): BetAction {
-    const allCards = [...player.holeCards, ...communityCards];
-    const myHand = evaluateHand(allCards);
+    const { currentBet, pot, communityCards, players, actionHistory, bettingRound } = gameState;
+    const { aggression, vpip, cbet } = this.styleConfig;
 
-    // Estimate equity (simplified - just use hand strength)
-    const handStrength = this.estimateHandStrength(myHand.ranking);
-    const callAmount = currentBet - player.currentBet;
+    const opponents = players.filter(p => p.position !== player.position && !p.isFolded);
+    const equity = this.getEquity(player, gameState, opponents, random);
+
+    if (this.styleConfig.balanced) {
+      return decideBalanced(player, gameState, equity, canRaise, random, this.getSizingMultiplier());
+    }
 
-    // Calculate pot odds
+    const texture = analyzeBoardTexture(communityCards);
+    const isRiver = communityCards.length === 5;
+    const callAmount = currentBet - player.currentBet;
     const potOdds = calculatePotOdds(pot, callAmount);
-    const estimatedEquity = handStrength;
 
-    // Bluff check (only if raising is allowed)
-    const shouldBluff = canRaise && this.shouldBluff(communityCards);
+    // Stack-to-pot ratio against the deepest opponent still in the hand
+    const effectiveStack = Math.min(player.stack, Math.max(...opponents.map(p => p.stack)));
+    const spr = pot > 0 ? effectiveStack / pot : Infinity;
+
+    // Thresholds start from a fair share of the pot; aggressive styles bet thinner
+    const fairShare = 100 / (opponents.length + 1);
+    const valueEdge = (30 - aggression * 2) * ((100 - fairShare) / 50);
+    // Bet to deny equity on wet boards while cards are still to come
+    const protection = texture.wetness === 'wet' && !isRiver ? 5 : 0;
+    const valueThreshold = fairShare + valueEdge - protection + this.exploits.valueThreshold;
+    // With deep stacks, raising needs more than betting does
+    const raiseThreshold = valueThreshold + 10 + (spr > 6 ? 5 : 0);
+    // Loose styles call lighter; deep stacks pay off draws on later streets
+    const impliedOdds = !isRiver && spr > 4 ? 3 : 0;
+    // What the hero's stats say about their bets only applies to a bet from the hero
+    const lastBet = [...actionHistory].reverse().find(
+      a => a.bettingRound === bettingRound && (a.action === 'raise' || a.action === 'all-in')
+    );
+    const heroAdjustment = lastBet?.player === 'hero' ? this.exploits.callThreshold : 0;
+    const callThreshold = potOdds - (vpip - 25) / 5 - impliedOdds + heroAdjustment;
+
+    // Draws with a real chance on later streets make the best bluffs
+    const isSemiBluff = !isRiver && equity >= 25 && equity < valueThreshold;
+    const shouldBluff = canRaise && this.shouldBluff(communityCards, random, isSemiBluff);
 
     // No bet yet
     if (currentBet === player.currentBet) {
-      // Check if we should bet (only if raising is allowed)
-      if (canRaise && handStrength >= 60 && this.shouldBeAggressive()) {
-        return this.determineRaiseSize(player, pot, handStrength);
-      } else if (shouldBluff && this.styleConfig.aggression >= 6) {
-        // Bluff with weak hand (only if raising is allowed)
-        return { type: 'raise', amount: Math.floor(pot * 0.5) };
+      // As the preflop raiser on the flop, a set c-bet frequency decides whether to bet
+      if (
+        cbet !== undefined &&
+        canRaise &&
+        communityCards.length === 3 &&
+        getPreflopRaiser(gameState) === player.position
+      ) {
+        return random() * 100 < cbet
+          ? this.determineRaiseSize(player, currentBet, pot, equity)
+          : { type: 'check' };
+      }
+      if (canRaise && equity >= valueThreshold && this.shouldBeAggressive(random)) {
+        return this.determineRaiseSize(player, currentBet, pot, equity);
+      } else if (shouldBluff && aggression >= 6) {
+        return { type: 'raise', amount: currentBet + Math.floor(pot * 0.5 * this.getSizingMultiplier()) };
       }
       return { type: 'check' };
     }
 
-    // Facing a bet
-    if (canRaise && handStrength >= 75) {
-      // Strong hand - raise (only if raising is allowed)
-      if (this.shouldBeAggressive()) {
-        return this.determineRaiseSize(player, pot, handStrength);
+    // Facing a bet with little behind: commit or let go
+    if (spr <= 1.5 && equity >= callThreshold) {
+      if (canRaise && equity >= valueThreshold && this.shouldBeAggressive(random)) {
+        return { type: 'all-in' };
       }
       return { type: 'call', amount: callAmount };
-    } else if (!canRaise && handStrength >= 85 && this.shouldBeAggressive()) {
-      // Someone is all-in but we have a very strong hand - go all-in ourselves
-      return { type: 'all-in' };
-    } else if (canRaise && handStrength >= 50) {
-      // Medium hand - call or raise occasionally (only if raising is allowed)
-      if (this.shouldBeAggressive() && Math.random() < 0.3) {
-        return this.determineRaiseSize(player, pot, handStrength);
+    }
+
+    if (canRaise && equity >= raiseThreshold) {
+      if (this.shouldBeAggressive(random)) {
+        return this.determineRaiseSize(player, currentBet, pot, equity);
       }
       return { type: 'call', amount: callAmount };
-    } else if (handStrength >= 50 || estimatedEquity > potOdds) {
-      // Medium hand or drawing hand with good odds
+    } else if (!canRaise && equity >= raiseThreshold + 10 && this.shouldBeAggressive(random)) {
+      // Can't raise normally but the hand is very strong - go all-in ourselves
+      return { type: 'all-in' };
+    } else if (equity >= callThreshold) {
       return { type: 'call', amount: callAmount };
-    } else if (shouldBluff && Math.random() < this.styleConfig.bluffFrequency) {
-      // Bluff (only if raising is allowed)
-      return this.determineRaiseSize(player, pot, 40);
-    } else {
-      return { type: 'fold' };
+    } else if (shouldBluff && random() < this.styleConfig.bluffFrequency) {
+      return this.determineRaiseSize(player, currentBet, pot, 40);
     }
+    return { type: 'fold' };
   }
 
   /**
    * Determine raise size based on hand strength and style
+   * Returns the total bet to raise to
    */
-  private determineRaiseSize(player: Player, pot: number, handStrength: number): BetAction {
+  private determineRaiseSize(
+    player: Player,
+    currentBet: number,
+    pot: number,
+    handStrength: number
+  ): BetAction {
     const aggression = this.styleConfig.aggression;
 
     let raiseMultiplier: number;
@@ -183,19 +378,28 @@ export class AIOpponent {
     } else {
       raiseMultiplier = 0.33 + (aggression / 10) * 0.67; // 0.33 to 1.0 pot
     }
+    raiseMultiplier *= this.getSizingMultiplier();
+    // Adaptive styles size value bets to what the hero pays off
+    if (handStrength >= 70) {
+      raiseMultiplier *= this.exploits.betSizing;
+    }
 
     const raiseAmount = Math.floor(pot * raiseMultiplier);
-    const cappedRaise = Math.min(raiseAmount, player.stack);
+    const cappedRaise = Math.min(currentBet + raiseAmount, player.stack + player.currentBet);
 
     return { type: 'raise', amount: cappedRaise };
   }
 
+  private getSizingMultiplier(): number {
+    return SIZING_MULTIPLIERS[this.styleConfig.sizing ?? 'standard'];
+  }
+
   /**
    * Should the AI be aggressive?
    */
-  private shouldBeAggressive(): boolean {
+  private shouldBeAggressive(random: RandomSource): boolean {
     const aggressionThreshold = (10 - this.styleConfig.aggression) / 10;
-    return Math.random() > aggressionThreshold;
+    return random() > aggressionThreshold;
   }
 
   /**
@@ -212,82 +416,32 @@ export class AIOpponent {
 
   /**
    * Should the AI bluff?
+   * @param isSemiBluff - The hand has a draw to fall back on
    */
-  private shouldBluff(communityCards: Card[]): boolean {
+  private shouldBluff(communityCards: Card[], random: RandomSource, isSemiBluff: boolean): boolean {
     // More likely to bluff on scary boards
-    const hasThreeToFlush = this.hasThreeToFlush(communityCards);
-    const hasThreeToStraight = this.hasThreeToStraight(communityCards);
-
-    const bluffBonus = (hasThreeToFlush || hasThreeToStraight) ? 0.2 : 0;
-
-    return Math.random() < (this.styleConfig.bluffFrequency + bluffBonus);
-  }
-
-  /**
-   * Estimate hand strength as percentage
-   */
-  private estimateHandStrength(ranking: string): number {
-    const strengthMap: Record<string, number> = {
-      'royal-flush': 100,
-      'straight-flush': 95,
-      'four-of-a-kind': 90,
-      'full-house': 85,
-      'flush': 75,
-      'straight': 70,
-      'three-of-a-kind': 60,
-      'two-pair': 50,
-      'pair': 35,
-      'high-card': 20,
-    };
-
-    return strengthMap[ranking] || 20;
-  }
+    const texture = analyzeBoardTexture(communityCards);
+    const isScary = isFlushPossible(texture) || texture.connectedness === 'connected';
 
-  /**
-   * Check if board has three cards to a flush
-   */
-  private hasThreeToFlush(cards: Card[]): boolean {
-    const suitCounts = cards.reduce((acc, card) => {
-      acc[card.suit] = (acc[card.suit] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return Object.values(suitCounts).some(count => count >= 3);
-  }
-
-  /**
-   * Check if board has three cards to a straight
-   */
-  private hasThreeToStraight(cards: Card[]): boolean {
-    if (cards.length < 3) return false;
-
-    // Simplified: just check if we have 3+ cards within 5 rank range
-    const ranks = cards.map(c => {
-      const rankMap: Record<string, number> = {
-        '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
-        'T': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14
-      };
-      return rankMap[c.rank] || 0;
-    }).sort((a, b) => a - b);
-
-    for (let i = 0; i <= ranks.length - 3; i++) {
-      if (ranks[i + 2] - ranks[i] <= 4) {
-        return true;
-      }
-    }
+    const bluffBonus = (isScary ? 0.2 : 0) + (isSemiBluff ? 0.15 : 0);
 
-    return false;
+    return random() < (this.styleConfig.bluffFrequency + bluffBonus);
   }
 
   /**
    * Get position multiplier for hand strength adjustment
    */
-  private getPositionMultiplier(position: 'early' | 'middle' | 'late' | 'button'): number {
+  private getPositionMultiplier(position: TablePosition): number {
     switch (position) {
-      case 'early': return 0.92;
-      case 'middle': return 0.96;
-      case 'late': return 1.04;
-      case 'button': return 1.08;
+      case 'UTG': return 0.9;
+      case 'UTG+1': return 0.91;
+      case 'UTG+2': return 0.92;
+      case 'MP': return 0.95;
+      case 'HJ': return 0.98;
+      case 'CO': return 1.04;
+      case 'BTN': return 1.08;
+      case 'SB': return 0.94;
+      case 'BB': return 0.96;  // Closes the action, so a little wider than the SB
       default: return 1.0;
     }
   }
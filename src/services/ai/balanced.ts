@@ -0,0 +1,131 @@
+/**
+ * Balanced postflop play
+ * Bets mix value hands with bluffs in the ratio that leaves a caller indifferent
+ * at that size, with the size drawn from a mix that depends on the board. Facing
+ * a bet, the range folds no more than the bet's share of the pot, so bluffing
+ * it is not automatically profitable. Hands are graded by where they rank
+ * within the range the player has shown so far.
+ */
+
+import type { BetAction, Card, GameState, Player, RandomSource } from '../../types';
+import { analyzeBoardTexture } from '../../utils/boardTexture';
+import { calculatePotOdds } from '../../utils/oddsCalculator';
+import { roundChips } from '../../utils/pokerLogic';
+import { getRangePercentile, readPlayerRange } from './handReading';
+
+// Bet sizes (share of the pot) and how often each is used
+const BET_SIZES: Record<'dry' | 'semi-wet' | 'wet' | 'river', [size: number, weight: number][]> = {
+  'dry': [[0.33, 0.7], [0.75, 0.3]],
+  'semi-wet': [[0.33, 0.5], [0.75, 0.5]],
+  'wet': [[0.33, 0.25], [0.75, 0.75]],
+  'river': [[0.33, 0.2], [0.75, 0.5], [1.25, 0.3]],
+};
+
+// Bluffs keep equity with cards to come, so earlier streets carry more of them
+const BLUFF_FACTORS: Record<number, number> = { 3: 1.6, 4: 1.3, 5: 1 };
+
+const VALUE_CUT = 0.7; // The top 30% of the range bets for value...
+const VALUE_BET_FREQUENCY = 0.8; // ...most of the time, checking the rest to protect checks
+const BLUFF_CUT = 0.3; // Bluffs come from the bottom 30%
+const RAISE_CUT = 0.9; // Facing a bet, the top 10% raises for value...
+const VALUE_RAISE_FREQUENCY = 0.6; // ...some of the time
+const RAISE_SIZE = 0.75; // Raise by this share of the pot after calling
+
+/**
+ * Decide a postflop action with balanced frequencies
+ * @param player - The player to act
+ * @param gameState - State with the player to act after the flop
+ * @param equity - The player's equity against the other players' ranges (0-100)
+ * @param canRaise - Whether a bet or raise is allowed
+ * @param random - Random source for the mixed strategy
+ * @param sizing - Multiplier on every bet and raise size (default: 1)
+ */
+export function decideBalanced(
+  player: Player,
+  gameState: GameState,
+  equity: number,
+  canRaise: boolean,
+  random: RandomSource,
+  sizing: number = 1
+): BetAction {
+  const { currentBet, pot, communityCards, players } = gameState;
+  const opponents = players.filter(p => p.position !== player.position && !p.isFolded);
+  const fairShare = 100 / (opponents.length + 1);
+  const callAmount = currentBet - player.currentBet;
+  const percentile = getRangePercentile(
+    player.holeCards,
+    readPlayerRange(gameState, player.position),
+    communityCards
+  );
+
+  // No bet yet: value bets and bluffs at one size
+  if (callAmount <= 0) {
+    if (!canRaise) return { type: 'check' };
+
+    const size = pickBetSize(communityCards, random) * sizing;
+    const isValue = percentile >= VALUE_CUT && equity >= fairShare;
+    const bluffChance =
+      getBluffOdds(size, communityCards) * VALUE_BET_FREQUENCY * ((1 - VALUE_CUT) / BLUFF_CUT);
+    const bets = isValue
+      ? random() < VALUE_BET_FREQUENCY
+      : percentile < BLUFF_CUT && random() < bluffChance;
+
+    return bets
+      ? { type: 'raise', amount: currentBet + roundChips(pot * size) }
+      : { type: 'check' };
+  }
+
+  const potOdds = calculatePotOdds(pot, callAmount);
+  const effectiveStack = Math.min(player.stack, Math.max(...opponents.map(p => p.stack)));
+  const raiseTo = currentBet + roundChips((pot + callAmount) * RAISE_SIZE * sizing);
+
+  // With little behind, only the price matters
+  if (pot > 0 && effectiveStack / pot <= 1.5) {
+    return equity >= potOdds ? { type: 'call', amount: callAmount } : { type: 'fold' };
+  }
+
+  if (canRaise && percentile >= RAISE_CUT && equity >= fairShare + 10) {
+    return random() < VALUE_RAISE_FREQUENCY
+      ? { type: 'raise', amount: raiseTo }
+      : { type: 'call', amount: callAmount };
+  }
+
+  // Fold no more than the bet's share of the pot, starting from the bottom of the range
+  const foldShare = callAmount / pot;
+  if (canRaise && percentile < foldShare) {
+    // Raise some of the folding hands as bluffs, balanced against the value raises
+    const bluffChance =
+      (getBluffOdds(RAISE_SIZE * sizing, communityCards) * (1 - RAISE_CUT) * VALUE_RAISE_FREQUENCY) /
+      foldShare;
+    if (random() < bluffChance) return { type: 'raise', amount: raiseTo };
+  }
+
+  return percentile >= foldShare || equity >= potOdds
+    ? { type: 'call', amount: callAmount }
+    : { type: 'fold' };
+}
+
+/**
+ * Draw a bet size (share of the pot) for this board
+ */
+function pickBetSize(board: Card[], random: RandomSource): number {
+  const sizes = BET_SIZES[board.length === 5 ? 'river' : analyzeBoardTexture(board).wetness];
+  let roll = random();
+  for (const [size, weight] of sizes) {
+    if (roll < weight) return size;
+    roll -= weight;
+  }
+  return sizes[sizes.length - 1][0];
+}
+
+/**
+ * Bluffs per value hand at a bet size
+ * On the river a caller getting size / (1 + 2 x size) of the final pot is
+ * indifferent when that share of the bets are bluffs; earlier streets allow more.
+ * @param size - Bet as a share of the pot
+ * @param board - Community cards
+ */
+function getBluffOdds(size: number, board: Card[]): number {
+  const bluffShare = Math.min(0.5, (size / (1 + 2 * size)) * BLUFF_FACTORS[board.length]);
+  return bluffShare / (1 - bluffShare);
+}
@@ -0,0 +1,106 @@
+/**
+ * Preflop charts
+ * Position-based open, 3-bet, call and 4-bet charts for 100 big blind stacks,
+ * stored as HandRange data files (src/data/charts). A weight below 1 is a mixed
+ * strategy: the hand takes that action that share of the time. The big blind's
+ * "open" chart is for raising limpers.
+ */
+
+import type { BetAction, Card, GameState, HandRange, Player, RandomSource, TablePosition } from '../../types';
+import { getHandClass } from '../../utils/handRanges';
+import { roundChips } from '../../utils/pokerLogic';
+import { getPreflopRaises } from './hud';
+import openChart from '../../data/charts/open.json';
+import threeBetChart from '../../data/charts/threeBet.json';
+import callChart from '../../data/charts/call.json';
+import callThreeBetChart from '../../data/charts/callThreeBet.json';
+import fourBetChart from '../../data/charts/fourBet.json';
+import fiveBetChart from '../../data/charts/fiveBet.json';
+
+/**
+ * Preflop spots with a chart
+ * - open: first in (or raising limpers)
+ * - threeBet / call: facing a single raise
+ * - fourBet / callThreeBet: facing a re-raise
+ * - fiveBet: facing a 4-bet, all-in or fold
+ */
+export type ChartSpot = 'open' | 'threeBet' | 'call' | 'callThreeBet' | 'fourBet' | 'fiveBet';
+
+export const PREFLOP_CHARTS: Record<ChartSpot, Record<TablePosition, HandRange>> = {
+  open: openChart,
+  threeBet: threeBetChart,
+  call: callChart,
+  callThreeBet: callThreeBetChart,
+  fourBet: fourBetChart,
+  fiveBet: fiveBetChart,
+};
+
+// Raise sizes: opens in big blinds (plus one per limper), re-raises as multiples of the raise faced
+const OPEN_SIZE = 2.5;
+const SMALL_BLIND_OPEN_SIZE = 3;
+const THREE_BET_IN_POSITION = 3;
+const THREE_BET_OUT_OF_POSITION = 4; // From the blinds
+const FOUR_BET_SIZE = 2.3;
+
+/**
+ * How often a chart plays a hand
+ * @param spot - Chart to look in
+ * @param position - Table position of the player
+ * @param cards - Hole cards
+ * @returns Share of the time the hand takes the chart's action (0-1)
+ */
+export function getChartFrequency(spot: ChartSpot, position: TablePosition, cards: [Card, Card]): number {
+  return PREFLOP_CHARTS[spot][position][getHandClass(cards)] ?? 0;
+}
+
+/**
+ * Decide a preflop action from the charts
+ * @param player - The player to act
+ * @param gameState - State with the player to act preflop
+ * @param position - The player's table position
+ * @param random - Random source for mixed strategies
+ */
+export function decideFromCharts(
+  player: Player,
+  gameState: GameState,
+  position: TablePosition,
+  random: RandomSource
+): BetAction {
+  const { currentBet, actionHistory } = gameState;
+  const cards = player.holeCards as [Card, Card];
+  const raises = getPreflopRaises(gameState);
+  const callAmount = currentBet - player.currentBet;
+  const allIn = player.stack + player.currentBet;
+
+  // One draw picks between the raise and the call, so mixed hands split as charted
+  const roll = random();
+  const play = (raiseSpot: ChartSpot, callSpot: ChartSpot | null, raiseTo: number): BetAction => {
+    const raise = getChartFrequency(raiseSpot, position, cards);
+    const call = callSpot ? getChartFrequency(callSpot, position, cards) : 0;
+    if (roll < raise) return { type: 'raise', amount: roundChips(raiseTo) };
+    if (roll < raise + call) return { type: 'call', amount: callAmount };
+    return callAmount > 0 ? { type: 'fold' } : { type: 'check' };
+  };
+
+  if (raises.length === 0) {
+    const limpers = actionHistory.filter(
+      a => (a.bettingRound ?? 'preflop') === 'preflop' && a.action === 'call'
+    ).length;
+    const size = (position === 'SB' ? SMALL_BLIND_OPEN_SIZE : OPEN_SIZE) + limpers;
+    return play('open', null, currentBet * size);
+  }
+
+  if (raises.length === 1) {
+    const outOfPosition = position === 'SB' || position === 'BB';
+    const size = outOfPosition ? THREE_BET_OUT_OF_POSITION : THREE_BET_IN_POSITION;
+    return play('threeBet', 'call', raises[0].amount * size);
+  }
+
+  if (raises.length === 2) {
+    // Calling a 3-bet is for the player who opened; cold 4-bets are raise or fold
+    const opened = raises[0].player === player.position;
+    return play('fourBet', opened ? 'callThreeBet' : null, raises[1].amount * FOUR_BET_SIZE);
+  }
+
+  return play('fiveBet', null, allIn);
+}
@@ -0,0 +1,109 @@
+/**
+ * Exploits for adaptive opponents
+ * Turns the hero's HUD stats into changes to an opponent's style: bluff the
+ * players who fold too much, value bet thinner and bigger into the ones who
+ * call too much, and give credit (or not) to the hero's bets
+ */
+
+import type { HudCounts, PlayerStyleConfig } from '../../types';
+import { getHudStats } from './hud';
+
+export interface ExploitAdjustments {
+  vpip: number; // Added to the style's VPIP
+  pfr: number; // Added to the style's PFR
+  bluffFrequency: number; // Added to the style's bluff frequency
+  valueThreshold: number; // Equity points added to what a value bet needs (negative bets thinner)
+  callThreshold: number; // Equity points added to what calling a bet needs
+  betSizing: number; // Multiplier on value bet sizes
+  leaks: string[]; // The hero's leaks being exploited, e.g. "Folds to 70% of c-bets"
+}
+
+export const NO_EXPLOITS: ExploitAdjustments = {
+  vpip: 0,
+  pfr: 0,
+  bluffFrequency: 0,
+  valueThreshold: 0,
+  callThreshold: 0,
+  betSizing: 1,
+  leaks: [],
+};
+
+// Samples needed before a stat is trusted
+const MIN_HANDS = 15;
+const MIN_CBETS_FACED = 5;
+const MIN_FLOPS_SEEN = 8;
+const MIN_POSTFLOP_ACTIONS = 10;
+
+/**
+ * Work out how to exploit the hero's tendencies
+ * Each stat only counts once it has a sample, so the opponent plays its base
+ * style until it has seen enough hands.
+ * @param counts - The hero's HUD counts this session
+ */
+export function getExploitAdjustments(counts: HudCounts): ExploitAdjustments {
+  const stats = getHudStats(counts);
+  const adjustments = { ...NO_EXPLOITS, leaks: [] as string[] };
+
+  if (counts.cbetsFaced >= MIN_CBETS_FACED && stats.foldToCbet !== null) {
+    if (stats.foldToCbet >= 60) {
+      adjustments.bluffFrequency += 0.25;
+      adjustments.leaks.push(`Folds to ${stats.foldToCbet}% of c-bets: bluffing more`);
+    } else if (stats.foldToCbet <= 30) {
+      adjustments.bluffFrequency -= 0.15;
+      adjustments.leaks.push(`Folds to only ${stats.foldToCbet}% of c-bets: bluffing less`);
+    }
+  }
+
+  if (counts.sawFlop >= MIN_FLOPS_SEEN && stats.wtsd !== null) {
+    if (stats.wtsd >= 35) {
+      adjustments.bluffFrequency -= 0.15;
+      adjustments.valueThreshold -= 8;
+      adjustments.betSizing *= 1.3;
+      adjustments.leaks.push(`Goes to showdown ${stats.wtsd}% of the time: value betting thinner and bigger`);
+    } else if (stats.wtsd <= 20) {
+      adjustments.bluffFrequency += 0.1;
+      adjustments.leaks.push(`Goes to showdown only ${stats.wtsd}% of the time: barreling more`);
+    }
+  }
+
+  if (counts.hands >= MIN_HANDS && stats.vpip !== null) {
+    if (stats.vpip >= 40) {
+      adjustments.valueThreshold -= 4;
+      adjustments.betSizing *= 1.15;
+      adjustments.leaks.push(`Plays ${stats.vpip}% of hands: betting more hands for value`);
+    } else if (stats.vpip <= 15) {
+      adjustments.vpip += 8;
+      adjustments.pfr += 10;
+      adjustments.callThreshold += 4;
+      adjustments.leaks.push(`Plays only ${stats.vpip}% of hands: stealing more, respecting bets`);
+    }
+  }
+
+  const postflopActions = counts.postflopBets + counts.postflopCalls;
+  if (postflopActions >= MIN_POSTFLOP_ACTIONS && stats.aggression !== null) {
+    if (stats.aggression >= 3) {
+      adjustments.callThreshold -= 6;
+      adjustments.leaks.push(`Aggression factor ${stats.aggression}: calling down lighter`);
+    } else if (stats.aggression <= 1) {
+      adjustments.callThreshold += 6;
+      adjustments.leaks.push(`Aggression factor ${stats.aggression}: folding more to bets`);
+    }
+  }
+
+  return adjustments;
+}
+
+/**
+ * Apply exploit adjustments to a style, keeping every setting in range
+ * @param style - Base style
+ * @param adjustments - Adjustments from getExploitAdjustments
+ */
+export function applyExploits(style: PlayerStyleConfig, adjustments: ExploitAdjustments): PlayerStyleConfig {
+  const vpip = Math.min(100, Math.max(0, style.vpip + adjustments.vpip));
+  return {
+    ...style,
+    vpip,
+    pfr: Math.min(vpip, Math.max(0, style.pfr + adjustments.pfr)),
+    bluffFrequency: Math.min(1, Math.max(0, style.bluffFrequency + adjustments.bluffFrequency)),
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Hand reading for AI opponents
+ * Puts each player on a preflop range from their position and action, then
+ * narrows it with every postflop action: bets keep strong hands and draws,
+ * calls keep medium hands and draws, checks lose some of the monsters
+ */
+
+import type {
+  BettingRound,
+  Card,
+  GameState,
+  HandRange,
+  HeroRangeRead,
+  PlayerAction,
+  PlayerPosition,
+  TablePosition,
+  WeightedCombo,
+} from '../../types';
+import { encodeCards, getRankingFromRank, rankCodes } from '../../utils/handRank';
+import {
+  HAND_CLASSES,
+  expandHandRange,
+  getRangePercentage,
+  removeBlockedCombos,
+  serializeHandRange,
+  toHandRange,
+} from '../../utils/handRanges';
+import { getParsedRange } from './ranges';
+
+/**
+ * Hands opened with a first raise from each position
+ */
+const OPEN_RANGES: Record<TablePosition, string> = {
+  'UTG': '66+, A9s+, KTs+, QTs+, JTs, T9s, AJo+, KQo',
+  'UTG+1': '55+, A8s+, KTs+, QTs+, JTs, T9s, 98s, AJo+, KQo',
+  'UTG+2': '44+, A7s+, K9s+, Q9s+, J9s+, T9s, 98s, ATo+, KJo+',
+  'MP': '33+, A5s+, K9s+, Q9s+, J9s+, T8s+, 98s, 87s, ATo+, KJo+, QJo',
+  'HJ': '22+, A3s+, K8s+, Q9s+, J9s+, T8s+, 97s+, 87s, 76s, ATo+, KTo+, QJo',
+  'CO': '22+, A2s+, K6s+, Q8s+, J8s+, T8s+, 97s+, 86s+, 76s, 65s, A8o+, KTo+, QTo+, JTo',
+  'BTN': '22+, A2s+, K2s+, Q5s+, J7s+, T7s+, 96s+, 86s+, 75s+, 64s+, 54s, A2o+, K8o+, Q9o+, J9o+, T9o',
+  'SB': '22+, A2s+, K5s+, Q8s+, J8s+, T8s+, 97s+, 86s+, 76s, 65s, A7o+, KTo+, QTo+, JTo',
+  'BB': '22+, A2s+, K8s+, Q9s+, J9s+, T8s+, 98s, ATo+, KJo+',
+};
+
+/** Re-raising a single raise */
+const THREE_BET_RANGE = 'TT+, AQs+, AKo, A5s:0.5, A4s:0.5, KQs:0.5';
+/** Raising or calling after two raises */
+const FOUR_BET_RANGE = 'QQ+, AKs, AKo';
+/** Calling a single raise */
+const CALL_RANGE =
+  '22-JJ, A2s-AQs, K9s+, Q9s+, J9s+, T8s+, 97s+, 86s+, 76s, 65s, ATo-AQo, KJo+, QJo';
+/** Limping or completing the small blind */
+const LIMP_RANGE =
+  '22+, A2s+, K2s+, Q5s+, J7s+, T7s+, 97s+, 86s+, 75s+, 64s+, 54s, A2o+, K8o+, Q9o+, J9o+, T9o, 98o';
+
+const BOARD_SIZES: Record<BettingRound, number> = { preflop: 0, flop: 3, turn: 4, river: 5 };
+
+let anyTwoCards: WeightedCombo[] | null = null;
+
+// Reads are shared by every AI at the table; dead cards are removed afterwards
+const READ_CACHE_SIZE = 200;
+const readCache = new Map<string, WeightedCombo[]>();
+
+/**
+ * Read the range a player is likely to hold from their actions this hand
+ * @param gameState - Current state (its action history and community cards)
+ * @param position - Player to read
+ * @param deadCards - Cards the reader can see (its own hole cards); the board is always dead
+ * @returns Combos the player may hold, weighted by how likely each is
+ */
+export function readPlayerRange(
+  gameState: GameState,
+  position: PlayerPosition,
+  deadCards: Card[] = []
+): WeightedCombo[] {
+  // Everything the read depends on: the preflop action, the player's later actions and the board
+  const preflopKey = gameState.actionHistory
+    .filter(a => (a.bettingRound ?? 'preflop') === 'preflop')
+    .map(a => `${a.player}:${a.action}:${a.amount}`)
+    .join();
+  const actions = gameState.actionHistory.filter(
+    a => a.player === position && (a.bettingRound ?? 'preflop') !== 'preflop'
+  );
+  const key = [
+    position,
+    preflopKey,
+    actions.map(a => `${a.bettingRound}:${a.action}`).join(),
+    gameState.communityCards.map(c => c.rank + c.suit).join(),
+  ].join('|');
+
+  let range = readCache.get(key);
+  if (!range) {
+    range = getPreflopRange(gameState, position);
+    for (const action of actions) {
+      const boardSize = BOARD_SIZES[action.bettingRound!];
+      if (boardSize <= gameState.communityCards.length) {
+        range = narrowRange(range, action.action, gameState.communityCards.slice(0, boardSize));
+      }
+    }
+    if (readCache.size >= READ_CACHE_SIZE) readCache.clear();
+    readCache.set(key, range);
+  }
+
+  const visible = removeBlockedCombos(range, [...deadCards, ...gameState.communityCards]);
+  return visible.length > 0
+    ? visible
+    : removeBlockedCombos(getAnyTwoCards(), [...deadCards, ...gameState.communityCards]);
+}
+
+/**
+ * What each AI opponent puts the hero on
+ * Covers the AI players still in the hand when the hero last acted.
+ * @param gameState - State at (or near) the end of the hand
+ */
+export function describeHeroReads(gameState: GameState): HeroRangeRead[] {
+  const { actionHistory, players } = gameState;
+  const heroLastAction = actionHistory.map(a => a.player).lastIndexOf('hero');
+  const foldedEarlier = new Set(
+    actionHistory
+      .slice(0, Math.max(heroLastAction, 0))
+      .filter(a => a.action === 'fold')
+      .map(a => a.player)
+  );
+
+  return players
+    .filter(p => p.position !== 'hero' && !foldedEarlier.has(p.position))
+    .map(p => {
+      const range = readPlayerRange(gameState, 'hero', p.holeCards);
+      // Quarter weights keep the notation short enough to read
+      const rounded: HandRange = {};
+      for (const [handClass, weight] of Object.entries(toHandRange(range))) {
+        const quarters = Math.round(weight * 4) / 4;
+        if (quarters > 0) rounded[handClass] = quarters;
+      }
+      return {
+        player: p.position,
+        name: p.name,
+        range: serializeHandRange(rounded),
+        rangePercentage: getRangePercentage(range),
+      };
+    });
+}
+
+/** A player's last preflop action and the raises it faced */
+interface PreflopRead {
+  action: PlayerAction;
+  tablePosition: TablePosition;
+  raisesBefore: number;
+  isRaise: boolean;
+}
+
+/**
+ * Starting range from a player's last preflop action and how many raises came before it
+ * @param gameState - State holding the hand's action history
+ * @param position - Player to read
+ */
+export function getPreflopRange(gameState: GameState, position: PlayerPosition): WeightedCombo[] {
+  const preflop = gameState.actionHistory.filter(a => (a.bettingRound ?? 'preflop') === 'preflop');
+
+  let streetBet = gameState.bigBlind;
+  let raises = 0;
+  let last: PreflopRead | null = null;
+
+  for (const action of preflop) {
+    // A short all-in that does not raise the bet is a call
+    const isRaise = (action.action === 'raise' || action.action === 'all-in') && action.amount > streetBet;
+    if (action.player === position) {
+      last = { action: action.action, tablePosition: action.tablePosition, raisesBefore: raises, isRaise };
+    }
+    if (isRaise) {
+      streetBet = action.amount;
+      raises++;
+    }
+  }
+
+  if (!last || last.action === 'fold' || last.action === 'check') {
+    // Checking the big blind (or no action yet): nothing learned
+    return getAnyTwoCards();
+  }
+  if (last.raisesBefore >= 2) return getParsedRange(FOUR_BET_RANGE);
+  if (last.isRaise) {
+    return getParsedRange(last.raisesBefore === 0 ? OPEN_RANGES[last.tablePosition] : THREE_BET_RANGE);
+  }
+  return getParsedRange(last.raisesBefore === 0 ? LIMP_RANGE : CALL_RANGE);
+}
+
+/**
+ * Narrow a range after one postflop action
+ * Each combo is graded by where its hand ranks within the range on this board
+ * and by whether it has a straight or flush draw
+ * @param range - Range before the action
+ * @param action - Action taken
+ * @param board - Community cards when the action was taken
+ * @returns Range with re-weighted combos (the unchanged range if nothing would be left)
+ */
+export function narrowRange(range: WeightedCombo[], action: PlayerAction, board: Card[]): WeightedCombo[] {
+  if (action === 'fold') return range;
+
+  const boardCodes = encodeCards(board);
+  const live = removeBlockedCombos(range, board);
+  const graded = live.map(combo => {
+    const codes = [...encodeCards(combo.cards), ...boardCodes];
+    return { combo, handRank: rankCodes(codes), outs: countDrawOuts(codes) };
+  });
+
+  // Share of the range's weight each combo beats (ties count half)
+  const sorted = [...graded].sort((a, b) => a.handRank - b.handRank);
+  const totalWeight = sorted.reduce((sum, g) => sum + g.combo.weight, 0);
+  const percentiles = new Map<WeightedCombo, number>();
+  let below = 0;
+  for (let i = 0; i < sorted.length; ) {
+    let j = i;
+    let tied = 0;
+    while (j < sorted.length && sorted[j].handRank === sorted[i].handRank) {
+      tied += sorted[j].combo.weight;
+      j++;
+    }
+    for (let k = i; k < j; k++) {
+      percentiles.set(sorted[k].combo, (below + tied / 2) / totalWeight);
+    }
+    below += tied;
+    i = j;
+  }
+
+  const narrowed = graded
+    .map(({ combo, outs }) => ({
+      cards: combo.cards,
+      weight: combo.weight * getActionWeight(action, percentiles.get(combo)!, outs),
+    }))
+    .filter(combo => combo.weight >= 0.01);
+
+  return narrowed.length > 0 ? narrowed : range;
+}
+
+/**
+ * Where a hand ranks within a range on this board
+ * @param cards - Hole cards
+ * @param range - Range the hand is part of
+ * @param board - Community cards
+ * @returns Share of the range's weight the hand beats, ties counting half (0-1)
+ */
+export function getRangePercentile(cards: Card[], range: WeightedCombo[], board: Card[]): number {
+  const boardCodes = encodeCards(board);
+  const handRank = rankCodes([...encodeCards(cards), ...boardCodes]);
+
+  let below = 0;
+  let total = 0;
+  for (const combo of removeBlockedCombos(range, [...cards, ...board])) {
+    const comboRank = rankCodes([...encodeCards(combo.cards), ...boardCodes]);
+    total += combo.weight;
+    if (comboRank < handRank) below += combo.weight;
+    else if (comboRank === handRank) below += combo.weight / 2;
+  }
+  return total > 0 ? below / total : 0.5;
+}
+
+/**
+ * How likely a hand of this strength is to take the action
+ * @param percentile - Share of the range the hand beats (0-1)
+ * @param outs - Cards that would complete a straight or flush
+ */
+function getActionWeight(action: PlayerAction, percentile: number, outs: number): number {
+  const strongDraw = outs >= 8;
+  const weakDraw = outs >= 4;
+
+  switch (action) {
+    case 'raise':
+    case 'all-in':
+      if (percentile >= 0.7) return 1;
+      if (strongDraw) return 0.8;
+      return weakDraw ? 0.4 : 0.15; // Bluffs
+    case 'call':
+      if (percentile >= 0.9) return 0.6; // The best hands would often raise
+      if (percentile >= 0.4 || strongDraw) return 1;
+      return weakDraw ? 0.6 : 0.2;
+    case 'check':
+      return percentile >= 0.85 ? 0.4 : 1; // Some monsters slow-play
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Count next cards that would give a hand without one a straight or better
+ * @param codes - Encoded hole cards then board (0 on the river)
+ */
+function countDrawOuts(codes: number[]): number {
+  if (codes.length >= 7) return 0;
+
+  const current = getRankingFromRank(rankCodes(codes));
+  if (current !== 'high-card' && current !== 'pair' && current !== 'two-pair' && current !== 'three-of-a-kind') {
+    return 0;
+  }
+
+  const hand = [...codes, 0];
+  let outs = 0;
+  for (let code = 0; code < 52; code++) {
+    if (codes.includes(code)) continue;
+    hand[codes.length] = code;
+    const ranking = getRankingFromRank(rankCodes(hand));
+    if (ranking === 'straight' || ranking === 'flush' || ranking === 'straight-flush' || ranking === 'royal-flush') {
+      outs++;
+    }
+  }
+  return outs;
+}
+
+function getAnyTwoCards(): WeightedCombo[] {
+  if (!anyTwoCards) {
+    anyTwoCards = expandHandRange(Object.fromEntries(HAND_CLASSES.map(handClass => [handClass, 1])));
+  }
+  return anyTwoCards;
+}
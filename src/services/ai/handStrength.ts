@@ -2,7 +2,7 @@
  * Pre-flop hand strength evaluation for AI decision making
  */
 
-import type { Card } from '../../types';
+import type { Card, TablePosition } from '../../types';
 import { getRankValue } from '../../utils/deckUtils';
 
 export type HandStrength = 'premium' | 'strong' | 'playable' | 'weak' | 'trash';
@@ -113,27 +113,23 @@ export function adjustForPosition(
 }
 
 /**
- * Determine position category based on player index
- * @param playerIndex - Current player index
- * @param dealerIndex - Dealer button index
- * @param totalPlayers - Total number of players
+ * Group a named table position into a broad category
+ * @param position - Named position for the current hand
  */
 export function getPositionCategory(
-  playerIndex: number,
-  dealerIndex: number,
-  totalPlayers: number
+  position: TablePosition
 ): 'early' | 'middle' | 'late' | 'button' {
-  // Calculate seats after dealer
-  const seatsAfterDealer = (playerIndex - dealerIndex + totalPlayers) % totalPlayers;
-
-  if (seatsAfterDealer === 0) return 'button';
-  if (seatsAfterDealer === 1 || seatsAfterDealer === 2) return 'early';  // SB, BB
-  if (totalPlayers === 4) {
-    // In 4-player, only have early/late/button
-    return seatsAfterDealer === 3 ? 'late' : 'middle';
+  switch (position) {
+    case 'BTN':
+      return 'button';
+    case 'CO':
+      return 'late';
+    case 'MP':
+    case 'HJ':
+      return 'middle';
+    default:
+      return 'early';  // UTG seats and the blinds
   }
-
-  return seatsAfterDealer <= 3 ? 'early' : seatsAfterDealer <= 5 ? 'middle' : 'late';
 }
 
 /**
@@ -0,0 +1,113 @@
+/**
+ * HUD stats
+ * Counts what a player did in each finished hand (VPIP, PFR, fold to c-bet,
+ * went to showdown, postflop aggression) so an adaptive opponent can read
+ * their tendencies over a session
+ */
+
+import type { Action, GameState, HudCounts, HudStats, PlayerPosition } from '../../types';
+
+export const EMPTY_HUD_COUNTS: HudCounts = {
+  hands: 0,
+  vpip: 0,
+  pfr: 0,
+  sawFlop: 0,
+  cbetsFaced: 0,
+  foldsToCbet: 0,
+  wentToShowdown: 0,
+  postflopBets: 0,
+  postflopCalls: 0,
+};
+
+/**
+ * Add a finished hand to a player's HUD counts
+ * @param counts - Counts so far this session
+ * @param state - State at the end of the hand (its action history and result)
+ * @param position - Player to count
+ * @returns Updated counts (unchanged if the player was not dealt in)
+ */
+export function recordHudHand(counts: HudCounts, state: GameState, position: PlayerPosition): HudCounts {
+  const player = state.players.find(p => p.position === position);
+  if (!player || player.holeCards.length !== 2) return counts;
+
+  const preflop = state.actionHistory.filter(a => (a.bettingRound ?? 'preflop') === 'preflop');
+  const aggressor = getPreflopRaiser(state);
+  const flop = state.actionHistory.filter(a => a.bettingRound === 'flop');
+  const postflop = state.actionHistory.filter(
+    a => a.player === position && (a.bettingRound ?? 'preflop') !== 'preflop'
+  );
+
+  const raised = getPreflopRaises(state).some(a => a.player === position);
+  const voluntary = preflop.some(
+    a => a.player === position && (a.action === 'call' || a.action === 'raise' || a.action === 'all-in')
+  );
+  const foldedPreflop = preflop.some(a => a.player === position && a.action === 'fold');
+  const sawFlop = !foldedPreflop && state.communityCards.length >= 3;
+
+  // A c-bet is the first flop bet, made by the preflop raiser
+  const firstBet = flop.findIndex(a => a.action === 'raise' || a.action === 'all-in');
+  const facedCbet =
+    firstBet >= 0 && aggressor !== null && aggressor !== position && flop[firstBet].player === aggressor;
+  const answer = facedCbet ? flop.slice(firstBet + 1).find(a => a.player === position) : undefined;
+
+  const showdown = state.handResult?.winningHand != null;
+
+  return {
+    hands: counts.hands + 1,
+    vpip: counts.vpip + (voluntary ? 1 : 0),
+    pfr: counts.pfr + (raised ? 1 : 0),
+    sawFlop: counts.sawFlop + (sawFlop ? 1 : 0),
+    cbetsFaced: counts.cbetsFaced + (answer ? 1 : 0),
+    foldsToCbet: counts.foldsToCbet + (answer?.action === 'fold' ? 1 : 0),
+    wentToShowdown: counts.wentToShowdown + (sawFlop && showdown && !player.isFolded ? 1 : 0),
+    postflopBets:
+      counts.postflopBets + postflop.filter(a => a.action === 'raise' || a.action === 'all-in').length,
+    postflopCalls: counts.postflopCalls + postflop.filter(a => a.action === 'call').length,
+  };
+}
+
+/**
+ * Preflop actions that raised the bet
+ * A short all-in that does not raise the bet is a call.
+ * @param state - State holding the hand's action history
+ */
+export function getPreflopRaises(state: GameState): Action[] {
+  let streetBet = state.bigBlind;
+  return state.actionHistory.filter(action => {
+    const isRaise =
+      (action.bettingRound ?? 'preflop') === 'preflop' &&
+      (action.action === 'raise' || action.action === 'all-in') &&
+      action.amount > streetBet;
+    if (isRaise) streetBet = action.amount;
+    return isRaise;
+  });
+}
+
+/**
+ * The last player to raise preflop, who c-bets the flop
+ * @param state - State holding the hand's action history
+ */
+export function getPreflopRaiser(state: GameState): PlayerPosition | null {
+  return getPreflopRaises(state).at(-1)?.player ?? null;
+}
+
+/**
+ * Turn HUD counts into percentages
+ * @param counts - A player's counts
+ */
+export function getHudStats(counts: HudCounts): HudStats {
+  const percent = (part: number, whole: number) =>
+    whole > 0 ? Math.round((part / whole) * 100) : null;
+
+  return {
+    hands: counts.hands,
+    vpip: percent(counts.vpip, counts.hands),
+    pfr: percent(counts.pfr, counts.hands),
+    foldToCbet: percent(counts.foldsToCbet, counts.cbetsFaced),
+    wtsd: percent(counts.wentToShowdown, counts.sawFlop),
+    aggression:
+      counts.postflopCalls > 0
+        ? Math.round((counts.postflopBets / counts.postflopCalls) * 10) / 10
+        : counts.postflopBets > 0 ? counts.postflopBets : null,
+  };
+}
@@ -5,3 +5,10 @@
 export { AIOpponent } from './AIOpponent';
 export * from './playerStyles';
 export * from './handStrength';
+export * from './ranges';
+export * from './handReading';
+export * from './hud';
+export * from './exploits';
+export * from './profiles';
+export * from './charts';
+export * from './balanced';
@@ -2,7 +2,8 @@
  * Player style configurations for AI opponents
  */
 
-import type { PlayerStyle, PlayerStyleConfig } from '../../types';
+import type { PlayerStyle, PlayerStyleConfig, RandomSource } from '../../types';
+import { shuffleArray } from '../../utils/random';
 
 /**
  * All available player styles with their characteristics
@@ -15,6 +16,7 @@ export const PLAYER_STYLES: Record<PlayerStyle, PlayerStyleConfig> = {
     pfr: 18,            // Raises ~18% of hands pre-flop
     aggression: 7,      // High aggression (0-10 scale)
     bluffFrequency: 0.25, // Bluffs 25% of the time when opportunity arises
+    range: '22+, A2s+, K9s+, Q9s+, J9s+, T8s+, 98s, ATo+, KJo+, QJo',
   },
   'loose-passive': {
     name: 'Fishy',
@@ -23,6 +25,7 @@ export const PLAYER_STYLES: Record<PlayerStyle, PlayerStyleConfig> = {
     pfr: 10,            // Rarely raises pre-flop
     aggression: 2,      // Low aggression
     bluffFrequency: 0.05, // Almost never bluffs
+    range: '22+, A2s+, K2s+, Q5s+, J7s+, T7s+, 97s+, 86s+, 75s+, 64s+, 54s, A2o+, K5o+, Q8o+, J8o+, T8o+, 98o',
   },
   'loose-aggressive': {
     name: 'Donkey',
@@ -31,6 +34,7 @@ export const PLAYER_STYLES: Record<PlayerStyle, PlayerStyleConfig> = {
     pfr: 35,            // Raises frequently
     aggression: 8,      // Very aggressive
     bluffFrequency: 0.4, // Bluffs often
+    range: '22+, A2s+, K2s+, Q4s+, J6s+, T6s+, 96s+, 85s+, 74s+, 64s+, 53s+, 43s, A2o+, K5o+, Q8o+, J8o+, T8o+, 97o+, 87o',
   },
   'tight-passive': {
     name: 'Grinder',
@@ -39,6 +43,7 @@ export const PLAYER_STYLES: Record<PlayerStyle, PlayerStyleConfig> = {
     pfr: 8,             // Rarely raises
     aggression: 3,      // Low aggression (calls more than raises)
     bluffFrequency: 0.1, // Rarely bluffs
+    range: '33+, A9s+, KTs+, QTs+, JTs, T9s, ATo+, KJo+',
   },
   'ultra-aggressive': {
     name: 'Maniac',
@@ -47,24 +52,50 @@ export const PLAYER_STYLES: Record<PlayerStyle, PlayerStyleConfig> = {
     pfr: 50,            // Raises very frequently
     aggression: 10,     // Maximum aggression
     bluffFrequency: 0.5, // Bluffs half the time
+    range: '22+, A2s+, K2s+, Q2s+, J2s+, T4s+, 95s+, 84s+, 74s+, 63s+, 52s+, 42s+, 32s, A2o+, K2o+, Q5o+, J7o+, T7o+, 96o+, 86o+, 75o+, 65o',
+  },
+  'solid-reg': {
+    name: 'Reggie',
+    style: 'solid-reg',
+    vpip: 24,           // Roughly what the preflop charts add up to
+    pfr: 20,
+    aggression: 6,
+    bluffFrequency: 0.3, // Unused: bluffs are balanced against value bets by size
+    range: '22+, A2s+, K7s+, Q9s+, J9s+, T8s+, 97s+, 87s, 76s, 65s, A9o+, KTo+, QJo',
+    balanced: true,     // Preflop charts, balanced postflop frequencies
+  },
+  'adaptive': {
+    name: 'Chameleon',
+    style: 'adaptive',
+    vpip: 24,           // Starts as a solid regular...
+    pfr: 19,
+    aggression: 6,
+    bluffFrequency: 0.25,
+    range: '22+, A2s+, K8s+, Q9s+, J9s+, T8s+, 97s+, 87s, 76s, ATo+, KTo+, QJo',
+    adaptive: true,     // ...then shifts to exploit the hero's leaks
   },
 };
 
+// Adaptive opponents only sit down when the table setup asks for one
+const RANDOM_STYLES = Object.values(PLAYER_STYLES).filter(style => !style.adaptive);
+
 /**
  * Get a random player style (excluding duplicates if needed)
  */
-export function getRandomPlayerStyle(excludeStyles: PlayerStyle[] = []): PlayerStyleConfig {
-  const availableStyles = Object.values(PLAYER_STYLES).filter(
+export function getRandomPlayerStyle(
+  excludeStyles: PlayerStyle[] = [],
+  random: RandomSource = Math.random
+): PlayerStyleConfig {
+  const availableStyles = RANDOM_STYLES.filter(
     style => !excludeStyles.includes(style.style)
   );
 
   if (availableStyles.length === 0) {
     // If all excluded, return a random one anyway
-    const allStyles = Object.values(PLAYER_STYLES);
-    return allStyles[Math.floor(Math.random() * allStyles.length)];
+    return RANDOM_STYLES[Math.floor(random() * RANDOM_STYLES.length)];
   }
 
-  return availableStyles[Math.floor(Math.random() * availableStyles.length)];
+  return availableStyles[Math.floor(random() * availableStyles.length)];
 }
 
 /**
@@ -82,12 +113,22 @@ export function getPlayerStyle(style: PlayerStyle): PlayerStyleConfig {
 }
 
 /**
- * Assign unique styles to 3 opponents
+ * Assign styles to the opponents at the table
+ * Styles are unique until every style is seated, then they repeat
+ * @param count - Number of opponents (default: 3)
+ * @param random - Random source (default: Math.random)
  */
-export function assignOpponentStyles(): PlayerStyleConfig[] {
-  const styles = Object.keys(PLAYER_STYLES) as PlayerStyle[];
-  const shuffled = [...styles].sort(() => Math.random() - 0.5);
+export function assignOpponentStyles(
+  count: number = 3,
+  random: RandomSource = Math.random
+): PlayerStyleConfig[] {
+  const styles = RANDOM_STYLES.map(style => style.style);
+  const assigned: PlayerStyleConfig[] = [];
+
+  while (assigned.length < count) {
+    const shuffled = shuffleArray(styles, random);
+    assigned.push(...shuffled.slice(0, count - assigned.length).map(style => PLAYER_STYLES[style]));
+  }
 
-  // Pick 3 random unique styles
-  return shuffled.slice(0, 3).map(style => PLAYER_STYLES[style]);
+  return assigned;
 }
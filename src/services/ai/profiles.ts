@@ -0,0 +1,57 @@
+/**
+ * Opponent profiles
+ * Settings a profile can add to a style (3-bet and c-bet frequencies, folding
+ * to 3-bets, bet sizing, tilt) and how they change its play
+ */
+
+import type { BetSizing, PlayerStyleConfig } from '../../types';
+
+/**
+ * Multiplier on bet and raise sizes for each sizing preference
+ */
+export const SIZING_MULTIPLIERS: Record<BetSizing, number> = {
+  small: 0.7,
+  standard: 1,
+  large: 1.35,
+  overbet: 1.9,
+};
+
+// A loss this big (in big blinds) sets off tilt, which wears off over the next hands
+export const TILT_LOSS_BB = 40;
+export const TILT_HANDS = 10;
+
+/**
+ * Fill in the profile settings a style leaves out
+ * The presets play without them; these are the values closest to how each one plays.
+ * @param style - Preset or profile
+ * @returns The style with every profile setting set
+ */
+export function completeProfile(style: PlayerStyleConfig): PlayerStyleConfig {
+  return {
+    ...style,
+    threeBet: style.threeBet ?? Math.round(style.pfr * 0.3),
+    cbet: style.cbet ?? Math.min(100, Math.round(40 + style.aggression * 5)),
+    foldToThreeBet: style.foldToThreeBet ?? Math.max(0, Math.round(70 - style.aggression * 4)),
+    sizing: style.sizing ?? 'standard',
+    tilt: style.tilt ?? 0,
+    adaptive: style.adaptive ?? false,
+    balanced: style.balanced ?? false,
+  };
+}
+
+/**
+ * Loosen a style up after a big loss
+ * @param style - Style to tilt
+ * @param strength - How much of the tilt is left (0-1); scaled by the style's tilt setting
+ */
+export function applyTilt(style: PlayerStyleConfig, strength: number): PlayerStyleConfig {
+  const tilt = ((style.tilt ?? 0) / 10) * strength;
+  const vpip = Math.min(100, style.vpip + 25 * tilt);
+  return {
+    ...style,
+    vpip,
+    pfr: Math.min(vpip, style.pfr + 20 * tilt),
+    aggression: Math.min(10, style.aggression + 3 * tilt),
+    bluffFrequency: Math.min(1, style.bluffFrequency + 0.25 * tilt),
+  };
+}
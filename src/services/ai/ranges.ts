@@ -0,0 +1,84 @@
+/**
+ * Opponent ranges taken from their playing style or seat profile
+ */
+
+import type { Card, OpponentRange, Player, PlayerStyle, RandomSource, WeightedCombo } from '../../types';
+import { getRangePercentage, parseRange } from '../../utils/handRanges';
+import { calculateEquityVsRanges } from '../../utils/oddsCalculator';
+import { PLAYER_STYLES } from './playerStyles';
+
+const parsedRanges = new Map<string, WeightedCombo[]>();
+
+/**
+ * Get the preflop range a style plays
+ * @param style - Opponent style
+ * @returns Combos of the style's range (parsed once, then shared)
+ */
+export function getStyleRange(style: PlayerStyle): WeightedCombo[] {
+  return getParsedRange(PLAYER_STYLES[style].range);
+}
+
+/**
+ * Get the preflop range an AI player plays: its seat profile's, or its style's
+ * @param player - AI player (with a style)
+ */
+export function getPlayerRange(player: Player): WeightedCombo[] {
+  return getParsedRange(getPlayerRangeText(player));
+}
+
+function getPlayerRangeText(player: Player): string {
+  return player.profile?.range ?? PLAYER_STYLES[player.style!].range;
+}
+
+/**
+ * Parse a range, reusing the combos of a range parsed before
+ * @param text - Range notation, e.g. "22+, A2s+, KTo+"
+ */
+export function getParsedRange(text: string): WeightedCombo[] {
+  let range = parsedRanges.get(text);
+  if (!range) {
+    range = parseRange(text);
+    parsedRanges.set(text, range);
+  }
+  return range;
+}
+
+/**
+ * Get the range notation of each AI opponent still in the hand
+ * Only changes when someone folds or a seat changes hands, so it makes a
+ * stable key for work done on the ranges.
+ * @param players - All players at the table
+ */
+export function getOpponentRangeTexts(players: Player[]): string[] {
+  return players
+    .filter(p => p.position !== 'hero' && !p.isFolded && p.style)
+    .map(getPlayerRangeText);
+}
+
+/**
+ * Describe each opponent still in the hand by range and the hero's equity against it
+ * @param heroCards - Hero's hole cards
+ * @param communityCards - Current community cards
+ * @param players - All players at the table
+ * @param random - Random source for simulated equity (default: Math.random)
+ */
+export function describeOpponentRanges(
+  heroCards: Card[],
+  communityCards: Card[],
+  players: Player[],
+  random: RandomSource = Math.random
+): OpponentRange[] {
+  return players
+    .filter(p => p.position !== 'hero' && !p.isFolded && p.style)
+    .map(p => {
+      const range = getPlayerRange(p);
+      return {
+        player: p.position,
+        name: p.name,
+        style: p.style!,
+        range: getPlayerRangeText(p),
+        rangePercentage: getRangePercentage(range),
+        heroEquity: calculateEquityVsRanges(heroCards, communityCards, [range], { random }).equity,
+      };
+    });
+}
@@ -0,0 +1,483 @@
+/**
+ * Pure poker engine
+ * Holds the whole betting state machine: state and action in, new state and
+ * events out. No React and no timers, so hands can be played headlessly.
+ */
+
+import type {
+  Action,
+  AnteType,
+  BetAction,
+  BlindLevel,
+  BettingRound,
+  EngineEvent,
+  EngineResult,
+  GameState,
+  Player,
+  PlayerPosition,
+  PlayerStyle,
+  PlayerStyleConfig,
+} from '../../types';
+import { createShuffledDeck, dealCards } from '../../utils/deckUtils';
+import { getTablePosition } from '../../utils/positions';
+import { createRandom, generateSeed } from '../../utils/random';
+import {
+  calculateMinRaise,
+  collectBets,
+  getBlindPositions,
+  getFirstPostFlopPlayer,
+  getFirstPreFlopPlayer,
+  getNextPlayerIndex,
+  isBettingRoundComplete,
+  isHandOver,
+  processPlayerAction,
+  resetPlayersForNewHand,
+  resolveShowdown,
+  roundChips,
+  validateAction,
+} from '../../utils/pokerLogic';
+import { buildPots, returnUncalledBet } from '../../utils/sidePots';
+
+export interface EngineConfig {
+  smallBlind: number;
+  bigBlind: number;
+  ante?: number; // Default: no ante
+  anteType?: AnteType; // Default: per-player
+  straddle?: boolean; // Default: no straddle
+}
+
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 9;
+
+/**
+ * Create a player sitting out of any hand
+ */
+export function createPlayer(
+  position: PlayerPosition,
+  seat: number,
+  name: string,
+  stack: number,
+  style?: PlayerStyle,
+  profile?: PlayerStyleConfig
+): Player {
+  return {
+    position,
+    seat,
+    name,
+    stack,
+    startingStack: stack,
+    holeCards: [],
+    currentBet: 0,
+    totalContribution: 0,
+    isFolded: false,
+    isAllIn: false,
+    hasActed: false,
+    style,
+    profile,
+  };
+}
+
+/**
+ * Create a game waiting for its first hand
+ */
+export function createGame(players: Player[], config: EngineConfig): GameState {
+  if (players.length < MIN_SEATS || players.length > MAX_SEATS) {
+    throw new Error(`A table needs ${MIN_SEATS} to ${MAX_SEATS} players, got ${players.length}`);
+  }
+
+  const blinds = getBlindPositions(players.length, 0);
+
+  return {
+    phase: 'waiting',
+    bettingRound: 'preflop',
+    pot: 0,
+    communityCards: [],
+    players,
+    tableSize: players.length,
+    currentPlayerIndex: 0,
+    dealerButtonIndex: blinds.dealer,
+    smallBlindIndex: blinds.smallBlind,
+    bigBlindIndex: blinds.bigBlind,
+    smallBlind: config.smallBlind,
+    bigBlind: config.bigBlind,
+    ante: config.ante ?? 0,
+    anteType: config.anteType ?? 'per-player',
+    straddle: config.straddle ?? false,
+    straddleIndex: null,
+    currentBet: 0,
+    minRaise: config.bigBlind * 2,
+    lastRaiseSize: config.bigBlind,
+    lastFullBet: 0,
+    actionHistory: [],
+    handResult: null,
+    deck: [],
+    handNumber: 0,
+    handSeed: null,
+  };
+}
+
+/**
+ * Move the button, shuffle, deal hole cards and post the blinds
+ * Every player must have chips (see applyBankrollRules)
+ * @param state - State after the previous hand (or a new game)
+ * @param seed - Seed for the shuffle; the same seed deals the same cards (default: random)
+ */
+export function startHand(state: GameState, seed: number = generateSeed()): EngineResult {
+  const broke = state.players.find(p => p.stack <= 0);
+  if (broke) {
+    throw new Error(`${broke.name} has no chips and cannot be dealt in`);
+  }
+
+  const dealerIndex = (state.dealerButtonIndex + 1) % state.players.length;
+  const blinds = getBlindPositions(state.players.length, dealerIndex);
+
+  // Deal hole cards
+  let deck = createShuffledDeck(createRandom(seed));
+  const players = resetPlayersForNewHand(state.players).map(player => {
+    const { cards, remainingDeck } = dealCards(deck, 2);
+    deck = remainingDeck;
+    return { ...player, holeCards: cards };
+  });
+
+  // Post antes and blinds; the big blind ante comes after the big blind itself
+  let postedPlayers = state.anteType === 'per-player' ? postAntes(players, state) : players;
+  postedPlayers = postedPlayers.map((player, index) => {
+    if (index === blinds.smallBlind) return postBlind(player, state.smallBlind);
+    if (index === blinds.bigBlind) return postBlind(player, state.bigBlind);
+    return player;
+  });
+  if (state.anteType === 'big-blind') {
+    postedPlayers = postAntes(postedPlayers, state, blinds.bigBlind);
+  }
+
+  // Optional straddle: a live blind of 2 big blinds that acts last pre-flop
+  const utg = getFirstPreFlopPlayer(postedPlayers.length, blinds.bigBlind);
+  const straddleAmount = state.bigBlind * 2;
+  const straddleIndex =
+    state.straddle && postedPlayers.length >= 3 && postedPlayers[utg].stack > straddleAmount
+      ? utg
+      : null;
+  if (straddleIndex !== null) {
+    postedPlayers[straddleIndex] = postBlind(postedPlayers[straddleIndex], straddleAmount);
+  }
+
+  // First player to act is after the big blind (or the straddle)
+  const firstPlayer = getFirstPreFlopPlayer(postedPlayers.length, straddleIndex ?? blinds.bigBlind);
+  const currentBet = straddleIndex !== null ? straddleAmount : state.bigBlind;
+  // A straddle plays like a bigger big blind, so raises must be at least its size
+  const lastRaiseSize = straddleIndex !== null ? straddleAmount : state.bigBlind;
+
+  const dealt: GameState = {
+    ...state,
+    phase: 'betting',
+    bettingRound: 'preflop',
+    pot: roundChips(postedPlayers.reduce((sum, p) => sum + p.totalContribution, 0)),
+    communityCards: [],
+    players: postedPlayers,
+    currentPlayerIndex: postedPlayers[firstPlayer].isAllIn
+      ? getNextPlayerIndex(postedPlayers, firstPlayer)
+      : firstPlayer,
+    dealerButtonIndex: dealerIndex,
+    smallBlindIndex: blinds.smallBlind,
+    bigBlindIndex: blinds.bigBlind,
+    straddleIndex,
+    currentBet,
+    minRaise: calculateMinRaise(currentBet, lastRaiseSize, state.bigBlind),
+    lastRaiseSize,
+    lastFullBet: currentBet,
+    actionHistory: [],
+    handResult: null,
+    deck,
+    handNumber: state.handNumber + 1,
+    handSeed: seed,
+  };
+  const events: EngineEvent[] = [{ type: 'hand-started', dealerIndex, seed }];
+
+  // Short stacks all-in on the blinds can leave nobody to act
+  if (isBettingRoundComplete(postedPlayers, currentBet)) {
+    return closeBettingRound(dealt, events);
+  }
+
+  return { state: dealt, events };
+}
+
+/**
+ * Apply an action for the player whose turn it is
+ * Throws if the action is not legal (see getLegalActions)
+ * @param state - Current state (must be in the betting phase)
+ * @param action - Action taken by the current player
+ * @param timestamp - Time recorded on the action (default: now)
+ */
+export function applyAction(
+  state: GameState,
+  action: BetAction,
+  timestamp: number = Date.now()
+): EngineResult {
+  if (state.phase !== 'betting') {
+    throw new Error(`Cannot act during the ${state.phase} phase`);
+  }
+
+  const validation = validateAction(state, action);
+  if (!validation.valid) {
+    throw new Error(`Illegal ${action.type}: ${validation.error}`);
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  const { updatedPlayer, potIncrease, newCurrentBet } = processPlayerAction(
+    action,
+    currentPlayer,
+    state
+  );
+
+  const players = state.players.map((p, index) =>
+    index === state.currentPlayerIndex ? updatedPlayer : p
+  );
+
+  // Only a full raise changes the minimum raise and reopens the action
+  const raiseSize = roundChips(newCurrentBet - state.currentBet);
+  const isFullRaise = raiseSize > 0 && raiseSize >= state.lastRaiseSize;
+  const lastRaiseSize = isFullRaise ? raiseSize : state.lastRaiseSize;
+
+  const actionRecord: Action = {
+    player: currentPlayer.position,
+    playerName: currentPlayer.name,
+    tablePosition: getTablePosition(
+      state.currentPlayerIndex,
+      state.dealerButtonIndex,
+      state.players.length
+    ),
+    action: action.type,
+    amount: getRecordedAmount(action, currentPlayer, updatedPlayer),
+    timestamp,
+    bettingRound: state.bettingRound,
+  };
+  const events: EngineEvent[] = [{ type: 'action', action: actionRecord }];
+
+  const next: GameState = {
+    ...state,
+    players,
+    pot: roundChips(state.pot + potIncrease),
+    currentBet: newCurrentBet,
+    minRaise: calculateMinRaise(newCurrentBet, lastRaiseSize, state.bigBlind),
+    lastRaiseSize,
+    lastFullBet: isFullRaise ? newCurrentBet : state.lastFullBet,
+    actionHistory: [...state.actionHistory, actionRecord],
+  };
+
+  // Only one player left - they win without a showdown
+  if (isHandOver(players)) {
+    return finishHand(next, events);
+  }
+
+  if (isBettingRoundComplete(players, newCurrentBet)) {
+    return closeBettingRound(next, events);
+  }
+
+  return {
+    state: { ...next, currentPlayerIndex: getNextPlayerIndex(players, state.currentPlayerIndex) },
+    events,
+  };
+}
+
+/**
+ * Change the blinds and ante for the next hand
+ * @param state - State between hands
+ * @param level - New blind level
+ */
+export function setBlindLevel(state: GameState, level: BlindLevel): GameState {
+  if (state.phase === 'betting') {
+    throw new Error('Cannot change the blinds during a hand');
+  }
+
+  return {
+    ...state,
+    smallBlind: level.smallBlind,
+    bigBlind: level.bigBlind,
+    ante: level.ante,
+  };
+}
+
+/**
+ * Get the player whose turn it is, if a betting round is running
+ */
+export function getCurrentPlayer(state: GameState): Player | undefined {
+  return state.phase === 'betting' ? state.players[state.currentPlayerIndex] : undefined;
+}
+
+/**
+ * Close the betting round and deal the next street, or go to showdown
+ */
+function closeBettingRound(state: GameState, events: EngineEvent[]): EngineResult {
+  const refunded = refundUncalledBet(state, events);
+  const { players } = collectBets(refunded.players);
+  const collected: GameState = {
+    ...refunded,
+    players: players.map(p => ({ ...p, hasActed: false })),
+    currentBet: 0,
+    minRaise: state.bigBlind,
+    lastRaiseSize: state.bigBlind,
+    lastFullBet: 0,
+  };
+
+  const nextRound = getNextBettingRound(state.bettingRound);
+  const playersAbleToAct = collected.players.filter(p => !p.isFolded && !p.isAllIn);
+
+  // Nobody left to bet against - run out the board
+  if (nextRound === 'complete' || playersAbleToAct.length <= 1) {
+    let runout = collected;
+    let round = getNextBettingRound(runout.bettingRound);
+    while (round !== 'complete') {
+      runout = dealStreet(runout, round, events);
+      round = getNextBettingRound(round);
+    }
+    return finishHand(runout, events);
+  }
+
+  const dealt = dealStreet(collected, nextRound, events);
+
+  // First to act post-flop is after dealer
+  const firstPlayer = getFirstPostFlopPlayer(dealt.players.length, dealt.dealerButtonIndex);
+  const currentPlayerIndex = dealt.players[firstPlayer].isFolded || dealt.players[firstPlayer].isAllIn
+    ? getNextPlayerIndex(dealt.players, firstPlayer)
+    : firstPlayer;
+
+  return { state: { ...dealt, currentPlayerIndex }, events };
+}
+
+/**
+ * Deal the community cards for a street
+ */
+function dealStreet(
+  state: GameState,
+  round: Exclude<BettingRound, 'preflop'>,
+  events: EngineEvent[]
+): GameState {
+  const { cards, remainingDeck } = dealCards(state.deck, round === 'flop' ? 3 : 1);
+  events.push({ type: 'street-dealt', round, cards });
+
+  return {
+    ...state,
+    bettingRound: round,
+    communityCards: [...state.communityCards, ...cards],
+    deck: remainingDeck,
+  };
+}
+
+/**
+ * Award the main pot and any side pots and move the hand to showdown
+ */
+function finishHand(state: GameState, events: EngineEvent[]): EngineResult {
+  const refunded = refundUncalledBet(state, events);
+  const { players, result } = resolveShowdown(
+    refunded.players,
+    refunded.communityCards,
+    buildPots(refunded.players),
+    refunded.dealerButtonIndex,
+    getChipUnit(refunded)
+  );
+  events.push({ type: 'hand-complete', result });
+
+  return {
+    state: {
+      ...refunded,
+      phase: 'showdown',
+      players,
+      currentBet: 0,
+      handResult: result,
+    },
+    events,
+  };
+}
+
+/**
+ * Give back the part of the last bet nobody called
+ */
+function refundUncalledBet(state: GameState, events: EngineEvent[]): GameState {
+  const { players, refund } = returnUncalledBet(state.players);
+  if (!refund) return state;
+
+  events.push({ type: 'bet-returned', player: refund.position, amount: refund.amount });
+  return { ...state, players, pot: roundChips(state.pot - refund.amount) };
+}
+
+/**
+ * Amount shown for an action: chips put in for a call, total bet for a raise or all-in
+ */
+function getRecordedAmount(action: BetAction, before: Player, after: Player): number {
+  switch (action.type) {
+    case 'call':
+      return roundChips(after.currentBet - before.currentBet);
+    case 'raise':
+    case 'all-in':
+      return after.currentBet;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Post a blind, going all-in if the stack is too short
+ */
+function postBlind(player: Player, amount: number): Player {
+  const posted = Math.min(amount, player.stack);
+  const stack = roundChips(player.stack - posted);
+  return {
+    ...player,
+    stack,
+    currentBet: roundChips(player.currentBet + posted),
+    totalContribution: roundChips(player.totalContribution + posted),
+    isAllIn: stack === 0,
+  };
+}
+
+/**
+ * Post antes as dead money (it goes in the pot but not towards the current bet)
+ * @param players - Players dealt in
+ * @param state - State holding the ante settings
+ * @param bigBlindIndex - Big blind, who posts everyone's ante for a big blind ante
+ */
+function postAntes(players: Player[], state: GameState, bigBlindIndex?: number): Player[] {
+  if (state.ante <= 0) return players;
+
+  return players.map((player, index) => {
+    let amount = state.ante;
+    if (state.anteType === 'big-blind') {
+      amount = index === bigBlindIndex ? state.ante * players.length : 0;
+    }
+    const posted = Math.min(roundChips(amount), player.stack);
+    if (posted === 0) return player;
+
+    const stack = roundChips(player.stack - posted);
+    return {
+      ...player,
+      stack,
+      totalContribution: roundChips(player.totalContribution + posted),
+      isAllIn: stack === 0,
+    };
+  });
+}
+
+/**
+ * Smallest chip in play, used for odd chips when a pot is split
+ */
+function getChipUnit(state: GameState): number {
+  return state.ante > 0 ? Math.min(state.smallBlind, state.ante) : state.smallBlind;
+}
+
+/**
+ * Get next betting round
+ */
+function getNextBettingRound(current: BettingRound): Exclude<BettingRound, 'preflop'> | 'complete' {
+  switch (current) {
+    case 'preflop':
+      return 'flop';
+    case 'flop':
+      return 'turn';
+    case 'turn':
+      return 'river';
+    case 'river':
+      return 'complete';
+    default:
+      return 'complete';
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Session bankroll rules applied between hands
+ * Busted opponents are replaced by fresh ones and the hero can rebuy or top up.
+ * Like the engine, these take a state and return a new state and events.
+ */
+
+import type {
+  EngineEvent,
+  EngineResult,
+  GameState,
+  Player,
+  RandomSource,
+  TableConfig,
+} from '../../types';
+import { generateRandomStack, roundChips } from '../../utils/pokerLogic';
+import { getRandomPlayerStyle } from '../ai/playerStyles';
+import { createPlayer } from './PokerEngine';
+
+// Stack range for opponents taking a seat, in big blinds
+const OPPONENT_MIN_STACK_BB = 30;
+const OPPONENT_MAX_STACK_BB = 200;
+
+/**
+ * Get a name nobody at the table is using (Fishy, Fishy 2, Fishy 3, ...)
+ * @param baseName - Preferred name
+ * @param players - Players already seated
+ */
+export function getSeatName(baseName: string, players: Player[]): string {
+  const taken = new Set(players.map(p => p.name));
+  if (!taken.has(baseName)) return baseName;
+
+  let suffix = 2;
+  while (taken.has(`${baseName} ${suffix}`)) suffix++;
+  return `${baseName} ${suffix}`;
+}
+
+/**
+ * Get a random stack for an opponent taking a seat
+ */
+export function generateOpponentStack(bigBlind: number, random: RandomSource = Math.random): number {
+  return generateRandomStack(OPPONENT_MIN_STACK_BB, OPPONENT_MAX_STACK_BB, bigBlind, random);
+}
+
+/**
+ * Get ready for the next hand: replace busted opponents and auto top-up the hero
+ * @param state - State between hands
+ * @param config - Table configuration
+ * @param random - Random source for new opponents (default: Math.random)
+ */
+export function applyBankrollRules(
+  state: GameState,
+  config: TableConfig,
+  random: RandomSource = Math.random
+): EngineResult {
+  assertBetweenHands(state);
+
+  const events: EngineEvent[] = [];
+  const players = [...state.players];
+
+  players.forEach((player, index) => {
+    if (player.position === 'hero' || player.stack > 0) return;
+
+    // A seat picked at table setup keeps its profile; otherwise prefer a style not
+    // already at the table, and never reuse the busted player's name
+    const styleConfig =
+      player.profile ??
+      getRandomPlayerStyle(players.flatMap(p => (p.style ? [p.style] : [])), random);
+    const replacement = createPlayer(
+      player.position,
+      player.seat,
+      getSeatName(styleConfig.name, players),
+      generateOpponentStack(state.bigBlind, random),
+      styleConfig.style,
+      player.profile
+    );
+
+    players[index] = replacement;
+    events.push({
+      type: 'seat-replaced',
+      player: player.position,
+      previousName: player.name,
+      name: replacement.name,
+      style: styleConfig.style,
+      profile: player.profile,
+      stack: replacement.stack,
+    });
+  });
+
+  const seated = { ...state, players };
+  if (!config.autoTopUp) {
+    return { state: seated, events };
+  }
+
+  const topUp = addHeroChips(seated, config);
+  return { state: topUp.state, events: [...events, ...topUp.events] };
+}
+
+/**
+ * Buy the hero back in after going broke
+ * @param state - State between hands, with the hero out of chips
+ * @param config - Table configuration
+ */
+export function rebuyHero(state: GameState, config: TableConfig): EngineResult {
+  assertBetweenHands(state);
+
+  const hero = state.players.find(p => p.position === 'hero');
+  if (!hero) {
+    throw new Error('There is no hero at the table');
+  }
+  if (hero.stack > 0) {
+    throw new Error('The hero still has chips and cannot rebuy');
+  }
+
+  return addHeroChips(state, config);
+}
+
+/**
+ * Bring the hero's stack up to the maximum buy-in
+ * A hero with no chips rebuys; a short hero tops up
+ */
+function addHeroChips(state: GameState, config: TableConfig): EngineResult {
+  const target = config.maxBuyIn * state.bigBlind;
+  const index = state.players.findIndex(p => p.position === 'hero');
+  const hero = state.players[index];
+
+  if (!hero || hero.stack >= target) {
+    return { state, events: [] };
+  }
+
+  const amount = roundChips(target - hero.stack);
+  const players = state.players.map((p, i) =>
+    i === index ? { ...p, stack: target, startingStack: target } : p
+  );
+
+  return {
+    state: { ...state, players },
+    events: [{ type: hero.stack === 0 ? 'rebuy' : 'top-up', player: hero.position, amount }],
+  };
+}
+
+/**
+ * Chips may only be added or seats changed while no hand is running
+ */
+function assertBetweenHands(state: GameState): void {
+  if (state.phase === 'betting') {
+    throw new Error('Cannot change stacks or seats during a hand');
+  }
+}
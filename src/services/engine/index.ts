@@ -0,0 +1,7 @@
+/**
+ * Game engine exports
+ */
+
+export * from './PokerEngine';
+export * from './bankroll';
+export * from './tournament';
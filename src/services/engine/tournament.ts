@@ -0,0 +1,106 @@
+/**
+ * Sit and go tournament rules applied around hands
+ * Players who run out of chips are eliminated (never replaced) and finish in
+ * reverse order of elimination; the last player left wins.
+ */
+
+import type { EngineEvent, GameState, TournamentStanding } from '../../types';
+import { getTournamentPrizes } from '../../utils/icm';
+
+/**
+ * Create the standings for a tournament that is about to start
+ * @param entrants - Players who start the tournament
+ * @param buyIn - Entry fee per player
+ */
+export function createStanding(entrants: number, buyIn: number): TournamentStanding {
+  const prizePool = entrants * buyIn;
+  return {
+    entrants,
+    prizePool,
+    prizes: getTournamentPrizes(entrants, prizePool),
+    finishes: [],
+  };
+}
+
+/**
+ * Work out who was eliminated by a finished hand
+ * Players busted in the same hand are placed by the chips they started it with
+ * (bigger stack finishes higher)
+ * @param state - State at the end of a hand
+ * @returns Elimination events, plus tournament-complete if one player is left
+ */
+export function getEliminations(state: GameState): EngineEvent[] {
+  if (state.phase !== 'showdown') return [];
+
+  const busted = state.players
+    .filter(p => p.stack <= 0)
+    .sort((a, b) => b.startingStack - a.startingStack);
+  const survivors = state.players.filter(p => p.stack > 0);
+
+  const events: EngineEvent[] = busted.map((player, index) => ({
+    type: 'player-eliminated',
+    player: player.position,
+    name: player.name,
+    place: survivors.length + index + 1,
+  }));
+
+  if (survivors.length === 1) {
+    events.push({
+      type: 'tournament-complete',
+      winner: survivors[0].position,
+      name: survivors[0].name,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Take eliminated players out of the game before the next hand
+ * The button is moved back so that it passes to the next player still in
+ * @param state - State between hands
+ */
+export function removeEliminatedPlayers(state: GameState): GameState {
+  if (state.phase === 'betting') {
+    throw new Error('Cannot remove players during a hand');
+  }
+
+  if (state.players.every(p => p.stack > 0)) return state;
+
+  // The last player still in at or before the old button
+  let buttonPlayer = state.players[state.dealerButtonIndex];
+  for (let offset = 0; offset < state.players.length; offset++) {
+    const index = (state.dealerButtonIndex - offset + state.players.length) % state.players.length;
+    if (state.players[index].stack > 0) {
+      buttonPlayer = state.players[index];
+      break;
+    }
+  }
+
+  const players = state.players.filter(p => p.stack > 0);
+  return {
+    ...state,
+    players,
+    dealerButtonIndex: Math.max(players.indexOf(buttonPlayer), 0),
+    currentPlayerIndex: 0,
+  };
+}
+
+/**
+ * Add eliminations and the winner to the standings
+ */
+export function recordFinish(
+  standing: TournamentStanding,
+  event: Extract<EngineEvent, { type: 'player-eliminated' | 'tournament-complete' }>
+): TournamentStanding {
+  const place = event.type === 'tournament-complete' ? 1 : event.place;
+  const player = event.type === 'tournament-complete' ? event.winner : event.player;
+
+  return {
+    ...standing,
+    finishes: [
+      ...standing.finishes,
+      { player, name: event.name, place, prize: standing.prizes[place - 1] ?? 0 },
+    ],
+  };
+}
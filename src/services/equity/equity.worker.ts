@@ -0,0 +1,75 @@
+/**
+ * Equity worker
+ * Runs equity off the main thread and posts the result so far after every
+ * batch of trials. The app shares one worker, so several requests can run at
+ * once, taking turns batch by batch until each is done or cancelled.
+ */
+
+import type { EquityWorkerRequest, EquityWorkerResponse } from '../../types';
+import { removeBlockedCombos } from '../../utils/handRanges';
+import { createEquitySimulation, getExactEquity } from '../../utils/oddsCalculator';
+
+// Trials between progress messages (and between checks for a newer request)
+const BATCH_SIZE = 2000;
+
+const activeIds = new Set<number>();
+
+const post = (response: EquityWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<EquityWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    activeIds.delete(request.id);
+    return;
+  }
+
+  activeIds.add(request.id);
+  calculate(request);
+};
+
+function calculate(request: Extract<EquityWorkerRequest, { type: 'calculate' }>): void {
+  const { id, heroCards, communityCards, opponents, maxTrials } = request;
+
+  const deadCards = [...heroCards, ...communityCards];
+  if (typeof opponents !== 'number' && opponents.some(range => removeBlockedCombos(range, deadCards).length === 0)) {
+    post({ type: 'no-combos', id });
+    activeIds.delete(id);
+    return;
+  }
+
+  try {
+    const exact = getExactEquity(heroCards, communityCards, opponents);
+    if (exact) {
+      post({ type: 'done', id, result: exact });
+      activeIds.delete(id);
+      return;
+    }
+
+    const simulation = createEquitySimulation(heroCards, communityCards, opponents);
+
+    // Yield between batches so newer requests can arrive
+    const runBatch = () => {
+      if (!activeIds.has(id)) return;
+
+      try {
+        const result = simulation.run(BATCH_SIZE);
+        if (result.samples >= maxTrials) {
+          post({ type: 'done', id, result });
+          activeIds.delete(id);
+        } else {
+          post({ type: 'progress', id, result });
+          setTimeout(runBatch, 0);
+        }
+      } catch (error) {
+        post({ type: 'error', id, message: String(error) });
+        activeIds.delete(id);
+      }
+    };
+
+    runBatch();
+  } catch (error) {
+    post({ type: 'error', id, message: String(error) });
+    activeIds.delete(id);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Equity services exports
+ */
+
+import type { EquityWorkerRequest, EquityWorkerResponse } from '../../types';
+
+type EquityRequest = Omit<Extract<EquityWorkerRequest, { type: 'calculate' }>, 'type' | 'id'>;
+
+// One worker for the whole app, started on the first request
+let worker: Worker | null = null;
+const listeners = new Map<number, (response: EquityWorkerResponse) => void>();
+let nextRequestId = 0;
+
+/**
+ * Calculate equity on the shared equity worker (see equity.worker.ts)
+ * @param request - Cards, opponents and trial limit
+ * @param onResponse - Called with every progress, done, no-combos or error message for this request
+ * @returns Function that cancels the request
+ */
+export function requestEquity(
+  request: EquityRequest,
+  onResponse: (response: EquityWorkerResponse) => void
+): () => void {
+  const shared = getWorker();
+  const id = ++nextRequestId;
+  listeners.set(id, onResponse);
+  shared.postMessage({ type: 'calculate', id, ...request });
+
+  return () => {
+    listeners.delete(id);
+    shared.postMessage({ type: 'cancel', id });
+  };
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./equity.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EquityWorkerResponse>) => {
+      listeners.get(event.data.id)?.(event.data);
+    };
+  }
+  return worker;
+}
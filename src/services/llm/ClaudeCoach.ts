@@ -4,6 +4,7 @@
 
 import type { CoachAnalysis, HandHistory, Grade } from '../../types';
 import type { ICoachLLM } from './ICoachLLM';
+import { ANALYSIS_FOCUS, formatHandContext, formatHandOutline } from './promptContext';
 
 export class ClaudeCoach implements ICoachLLM {
   private apiKey: string;
@@ -94,15 +95,7 @@ export class ClaudeCoach implements ICoachLLM {
 
 Analyze this Texas Hold'em hand and provide detailed coaching:
 
-Hero's Cards: ${this.formatCards(handHistory.heroCards)}
-Community Cards: ${this.formatCards(handHistory.communityCards)}
-Pot: $${handHistory.pot}
-
-Action History:
-${this.formatActions(handHistory.actions)}
-
-Winner: ${handHistory.winner}
-Winning Hand: ${this.formatCards(handHistory.winningCards)}
+${formatHandContext(handHistory)}
 
 Please provide your analysis in the following JSON format:
 {
@@ -126,35 +119,24 @@ Please provide your analysis in the following JSON format:
   "handStrengthSummary": "brief summary of hand strength progression",
   "opponentAnalysis": [
     {
-      "player": "opponent1|opponent2|opponent3",
+      "player": "opponent1|opponent2|...",
       "style": "their playing style",
       "criticalActions": ["action1", "action2"]
     }
   ]
 }
 
-Be encouraging, celebrate good plays, and gently explain mistakes. Focus on pot odds, equity, and strategic thinking.`;
+Be encouraging, celebrate good plays, and gently explain mistakes. ${ANALYSIS_FOCUS}`;
   }
 
   private buildSummaryPrompt(handHistory: HandHistory): string {
     return `You are a friendly poker coach. Provide a brief 1-2 sentence summary of this hand.
 
-Hero's Cards: ${this.formatCards(handHistory.heroCards)}
-Community Cards: ${this.formatCards(handHistory.communityCards)}
-Winner: ${handHistory.winner}
-Pot: $${handHistory.pot}
+${formatHandOutline(handHistory)}
 
 Just say whether the hero played well or not, and if they won or lost. Be encouraging and friendly.`;
   }
 
-  private formatCards(cards: any[]): string {
-    return cards.map(c => `${c.rank}${c.suit[0]}`).join(' ');
-  }
-
-  private formatActions(actions: any[]): string {
-    return actions.map(a => `${a.player} ${a.action} $${a.amount || 0}`).join('\n');
-  }
-
   private parseAnalysis(analysisText: string): CoachAnalysis {
     try {
       // Try to extract JSON from the response
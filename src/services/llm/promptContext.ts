@@ -0,0 +1,145 @@
+/**
+ * Hand context shared by every coach's prompts
+ * Each coach wraps these sections in its own instructions and response format.
+ */
+
+import type { Action, Card, DrawSpot, DrawType, HandHistory } from '../../types';
+import { analyzeBoardTexture } from '../../utils/boardTexture';
+import { DRAW_LABELS, analyzeOuts } from '../../utils/outs';
+import { getRelativeStrength } from '../../utils/relativeStrength';
+
+/**
+ * What the coach should weigh when grading the hero's decisions
+ */
+export const ANALYSIS_FOCUS =
+  "Focus on pot odds, equity against the opponents' ranges, $EV next to chip EV in tournaments, and strategic thinking.";
+
+function formatCards(cards: Card[]): string {
+  return cards.map(c => `${c.rank}${c.suit[0]}`).join(' ');
+}
+
+function formatActions(actions: Action[]): string {
+  return actions.map(a => `${a.player} (${a.tablePosition}) ${a.action} $${a.amount || 0}`).join('\n');
+}
+
+function formatBoardTexture(handHistory: HandHistory): string {
+  if (handHistory.communityCards.length < 3) return '';
+
+  const texture = analyzeBoardTexture(handHistory.communityCards);
+  return `Board Texture: ${texture.summary}; the nuts are ${texture.nuts}\n`;
+}
+
+function formatOuts(handHistory: HandHistory): string {
+  const { heroCards, communityCards } = handHistory;
+  // Outs are counted on the flop and turn boards the hand reached
+  const streets = [['Flop', 3], ['Turn', 4]] as const;
+
+  const lines = streets
+    .filter(([, boardSize]) => communityCards.length >= boardSize)
+    .map(([street, boardSize]) => {
+      const board = communityCards.slice(0, boardSize);
+      const outs = analyzeOuts(heroCards, board);
+      if (outs.outs.length === 0) return `${street} (${formatCards(board)}): no outs`;
+
+      const draws = Object.entries(outs.byDraw).map(
+        ([draw, cards]) => `${DRAW_LABELS[draw as DrawType]} ${cards.length}`
+      );
+      return `${street} (${formatCards(board)}): ${outs.outs.length} outs (${draws.join(', ')}) - ${outs.clean} clean, ${outs.dirty} dirty, ${outs.discounted} after discounting dirty outs`;
+    });
+  return lines.length > 0 ? `Hero's Outs:\n${lines.join('\n')}\n` : '';
+}
+
+function formatHandStrength(handHistory: HandHistory): string {
+  const { heroCards, communityCards } = handHistory;
+  const streets = [['Flop', 3], ['Turn', 4], ['River', 5]] as const;
+
+  const lines = streets
+    .filter(([, boardSize]) => communityCards.length >= boardSize)
+    .map(([street, boardSize]) => {
+      const board = communityCards.slice(0, boardSize);
+      return `${street} (${formatCards(board)}): ${getRelativeStrength(heroCards, board).summary}`;
+    });
+  return lines.length > 0 ? `Hero's Hand Strength:\n${lines.join('\n')}\n` : '';
+}
+
+function formatDrawSpots(handHistory: HandHistory): string {
+  if (!handHistory.drawSpots?.length) return '';
+
+  const verdicts: Record<DrawSpot['verdict'], string> = {
+    'direct-odds': 'the pot already pays for the call',
+    'implied-odds': 'calling needs implied odds the stacks behind can cover',
+    'too-shallow': 'the stacks behind cannot pay for the call',
+  };
+  const lines = handHistory.drawSpots.map(spot => {
+    const needed =
+      spot.neededWinnings === null ? 'no later winnings are enough' : `must win $${spot.neededWinnings} more later`;
+    return (
+      `On the ${spot.round}: $${spot.callAmount} to call into $${spot.pot} with ${spot.outs} outs (${spot.dirtyOuts} dirty, ${spot.hitChance}% next card) - ` +
+      `${needed} ($${spot.maxWinnings} behind, $${spot.reverseImpliedCost} of it reverse implied); ${verdicts[spot.verdict]}`
+    );
+  });
+  return `Implied Odds (draws facing a bet):\n${lines.join('\n')}\n`;
+}
+
+function formatOpponentRanges(handHistory: HandHistory): string {
+  if (!handHistory.opponentRanges?.length) return '';
+
+  const lines = handHistory.opponentRanges.map(
+    o => `${o.name} (${o.style}): ${o.range} (${o.rangePercentage}% of hands) - hero equity ${o.heroEquity}%`
+  );
+  return `\nOpponent Ranges (from their style):\n${lines.join('\n')}\n`;
+}
+
+function formatHeroReads(handHistory: HandHistory): string {
+  if (!handHistory.heroReads?.length) return '';
+
+  const lines = handHistory.heroReads.map(
+    r => `${r.name} put the hero on: ${r.range} (${r.rangePercentage}% of hands)`
+  );
+  return `\nOpponent Reads (from the hero's actions):\n${lines.join('\n')}\n`;
+}
+
+function formatTournament(handHistory: HandHistory): string {
+  if (!handHistory.tournament) return '';
+
+  const { prizes, heroPrizeEquity, allInCalls } = handHistory.tournament;
+  const signed = (value: number) => `${value >= 0 ? '+' : '-'}${Math.abs(value)}`;
+  const lines = [
+    `Prizes: ${prizes.map(prize => `$${prize}`).join(' / ')}; hero's prize equity at the start of the hand: $${heroPrizeEquity}`,
+    ...allInCalls.map(
+      spot =>
+        `Facing an all-in (${spot.round}): ${spot.called ? 'called' : 'folded'} with ${spot.equity}% equity - ` +
+        `chip EV ${signed(spot.chipEV)}, $EV ${signed(spot.dollarEV)} (fold $${spot.foldEquity}, call $${spot.callEquity})`
+    ),
+  ];
+  return `\nTournament (ICM prize money):\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Full hand for an analysis prompt: cards, board reads, action, ranges and
+ * tournament stakes, ending with the result
+ */
+export function formatHandContext(handHistory: HandHistory): string {
+  return `Hero's Position: ${handHistory.heroPosition} (${handHistory.tableSize}-handed)
+Hero's Cards: ${formatCards(handHistory.heroCards)}
+Community Cards: ${formatCards(handHistory.communityCards)}
+${formatBoardTexture(handHistory)}${formatOuts(handHistory)}${formatHandStrength(handHistory)}${formatDrawSpots(handHistory)}Pot: $${handHistory.pot}
+
+Action History:
+${formatActions(handHistory.actions)}
+${formatOpponentRanges(handHistory)}${formatHeroReads(handHistory)}${formatTournament(handHistory)}
+
+Winner: ${handHistory.winner}
+Winning Hand: ${formatCards(handHistory.winningCards)}`;
+}
+
+/**
+ * Short version of the hand for a one-line summary prompt
+ */
+export function formatHandOutline(handHistory: HandHistory): string {
+  return `Hero's Position: ${handHistory.heroPosition} (${handHistory.tableSize}-handed)
+Hero's Cards: ${formatCards(handHistory.heroCards)}
+Community Cards: ${formatCards(handHistory.communityCards)}
+Winner: ${handHistory.winner}
+Pot: $${handHistory.pot}`;
+}
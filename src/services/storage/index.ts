@@ -0,0 +1,6 @@
+/**
+ * Storage services exports
+ */
+
+export * from './savedRanges';
+export * from './savedProfiles';
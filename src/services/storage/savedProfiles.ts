@@ -0,0 +1,131 @@
+/**
+ * Saved opponent profiles, kept in localStorage
+ * Components read them through useSavedProfiles, which re-renders on every change.
+ */
+
+import type { BetSizing, PlayerStyle, PlayerStyleConfig } from '../../types';
+import { PLAYER_STYLES } from '../ai/playerStyles';
+import { SIZING_MULTIPLIERS } from '../ai/profiles';
+import { parseHandRange } from '../../utils/handRanges';
+
+const STORAGE_KEY = 'poker-trainer.saved-profiles';
+
+let savedProfiles: PlayerStyleConfig[] | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Get all saved profiles, sorted by name
+ * Entries that are no longer valid are skipped.
+ */
+export function getSavedProfiles(): PlayerStyleConfig[] {
+  if (!savedProfiles) {
+    savedProfiles = loadSavedProfiles();
+  }
+  return savedProfiles;
+}
+
+/**
+ * Save a profile under its name, replacing any profile saved under the same name
+ * @param profile - Profile to save
+ */
+export function saveProfile(profile: PlayerStyleConfig): void {
+  const name = profile.name.trim();
+  if (!name) {
+    throw new Error('A saved profile needs a name');
+  }
+  if (Object.values(PLAYER_STYLES).some(style => style.name === name)) {
+    throw new Error(`"${name}" is the name of a built-in style`);
+  }
+  checkRange(profile.range);
+
+  const others = getSavedProfiles().filter(saved => saved.name !== name);
+  storeSavedProfiles([...others, { ...profile, name }]);
+}
+
+/**
+ * Delete the profile saved under a name
+ */
+export function deleteSavedProfile(name: string): void {
+  storeSavedProfiles(getSavedProfiles().filter(saved => saved.name !== name));
+}
+
+/**
+ * Get notified whenever the saved profiles change
+ * @returns Function that stops the notifications
+ */
+export function subscribeSavedProfiles(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function loadSavedProfiles(): PlayerStyleConfig[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap(entry => {
+      try {
+        return [toProfile(entry)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check a stored entry and bring its settings back into range
+ */
+function toProfile(entry: Record<string, unknown>): PlayerStyleConfig {
+  const style = String(entry.style) as PlayerStyle;
+  if (!(style in PLAYER_STYLES)) {
+    throw new Error(`Unknown style: ${style}`);
+  }
+  const range = String(entry.range);
+  checkRange(range);
+
+  const clamp = (value: unknown, max: number) => Math.min(max, Math.max(0, Number(value) || 0));
+  const optional = (value: unknown, max: number) => (value === undefined ? undefined : clamp(value, max));
+  const sizing = entry.sizing as BetSizing | undefined;
+
+  return {
+    name: String(entry.name),
+    style,
+    vpip: clamp(entry.vpip, 100),
+    pfr: clamp(entry.pfr, 100),
+    aggression: clamp(entry.aggression, 10),
+    bluffFrequency: clamp(entry.bluffFrequency, 1),
+    range,
+    threeBet: optional(entry.threeBet, 100),
+    cbet: optional(entry.cbet, 100),
+    foldToThreeBet: optional(entry.foldToThreeBet, 100),
+    sizing: sizing && sizing in SIZING_MULTIPLIERS ? sizing : undefined,
+    tilt: optional(entry.tilt, 10),
+    adaptive: entry.adaptive === true,
+    balanced: entry.balanced === true,
+  };
+}
+
+/**
+ * Make sure a profile's range parses and has at least one hand, so every seat
+ * it is picked for gives the equity worker some combos
+ */
+function checkRange(range: string): void {
+  if (Object.keys(parseHandRange(range)).length === 0) {
+    throw new Error('A profile range needs at least one hand');
+  }
+}
+
+function storeSavedProfiles(profiles: PlayerStyleConfig[]): void {
+  savedProfiles = [...profiles].sort((a, b) => a.name.localeCompare(b.name));
+
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(savedProfiles));
+  }
+
+  listeners.forEach(listener => listener());
+}
@@ -0,0 +1,89 @@
+/**
+ * Saved ranges, kept in localStorage
+ * Ranges are stored in standard notation so they stay readable and survive
+ * changes to the HandRange shape. Components read them through
+ * useSavedRanges, which re-renders on every change.
+ */
+
+import type { HandRange, SavedRange } from '../../types';
+import { parseHandRange, serializeHandRange } from '../../utils/handRanges';
+
+const STORAGE_KEY = 'poker-trainer.saved-ranges';
+
+let savedRanges: SavedRange[] | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Get all saved ranges, sorted by name
+ * Entries that no longer parse are skipped.
+ */
+export function getSavedRanges(): SavedRange[] {
+  if (!savedRanges) {
+    savedRanges = loadSavedRanges();
+  }
+  return savedRanges;
+}
+
+/**
+ * Save a range under a name, replacing any range saved under the same name
+ * @param name - Name to save under, e.g. "my BTN open"
+ * @param range - Range to save
+ */
+export function saveRange(name: string, range: HandRange): void {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('A saved range needs a name');
+  }
+
+  const others = getSavedRanges().filter(saved => saved.name !== trimmed);
+  storeSavedRanges([...others, { name: trimmed, range }]);
+}
+
+/**
+ * Delete the range saved under a name
+ */
+export function deleteSavedRange(name: string): void {
+  storeSavedRanges(getSavedRanges().filter(saved => saved.name !== name));
+}
+
+/**
+ * Get notified whenever the saved ranges change
+ * @returns Function that stops the notifications
+ */
+export function subscribeSavedRanges(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function loadSavedRanges(): SavedRange[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap(entry => {
+      try {
+        return [{ name: String(entry.name), range: parseHandRange(String(entry.range)) }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+function storeSavedRanges(ranges: SavedRange[]): void {
+  savedRanges = [...ranges].sort((a, b) => a.name.localeCompare(b.name));
+
+  if (typeof localStorage !== 'undefined') {
+    const stored = savedRanges.map(saved => ({
+      name: saved.name,
+      range: serializeHandRange(saved.range),
+    }));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  listeners.forEach(listener => listener());
+}
@@ -2,7 +2,15 @@
  * AI Coach and analysis type definitions
  */
 
-import type { Action, BettingRound, Card, PlayerPosition } from './poker.types';
+import type {
+  Action,
+  BettingRound,
+  Card,
+  ImpliedOdds,
+  PlayerPosition,
+  TablePosition,
+} from './poker.types';
+import type { AllInCallEV } from './game.types';
 
 export type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
 
@@ -32,16 +40,77 @@ export interface CoachAnalysis {
   }[];
 }
 
+/**
+ * An opponent's likely holdings, read from their style, and how the hero fares against them
+ */
+export interface OpponentRange {
+  player: PlayerPosition;
+  name: string;
+  style: string;
+  range: string; // Range notation, e.g. "22+, A2s+, KTo+"
+  rangePercentage: number; // Share of all holdings (0-100)
+  heroEquity: number; // Hero's equity against this range alone (0-100)
+}
+
+/**
+ * What an AI opponent put the hero on by the end of the hand
+ */
+export interface HeroRangeRead {
+  player: PlayerPosition;
+  name: string;
+  range: string; // Range notation, e.g. "TT+, AQs+:0.5"
+  rangePercentage: number; // Share of all holdings (0-100)
+}
+
+/**
+ * A bet the hero faced holding a draw, with the implied odds of calling it
+ */
+export interface DrawSpot extends ImpliedOdds {
+  round: BettingRound;
+  pot: number;
+  callAmount: number;
+}
+
+/**
+ * An all-in the hero faced in a tournament and what they did
+ */
+export interface AllInCallSpot extends AllInCallEV {
+  round: BettingRound;
+  equity: number; // Hero's chance to win when calling (0-100)
+  called: boolean;
+}
+
+/**
+ * The hero's tournament standing for the hand, in prize money
+ */
+export interface TournamentSpot {
+  prizes: number[]; // Prize for each paid place, 1st first
+  heroPrizeEquity: number; // Hero's ICM share of the prize pool at the start of the hand
+  allInCalls: AllInCallSpot[];
+}
+
 export interface HandHistory {
   heroCards: Card[];
+  heroPosition: TablePosition;
+  tableSize: number;
   communityCards: Card[];
   actions: Action[];
   pot: number;
   playerStacks: Map<PlayerPosition, number>;
   winner: PlayerPosition;
   winningCards: Card[];
+  opponentRanges?: OpponentRange[];
+  heroReads?: HeroRangeRead[];
+  drawSpots?: DrawSpot[];
+  tournament?: TournamentSpot;
 }
 
+// Reads and spots recorded alongside a hand, all optional
+export type HandHistoryDetails = Pick<
+  HandHistory,
+  'opponentRanges' | 'heroReads' | 'drawSpots' | 'tournament'
+>;
+
 /**
  * LLM Coach interface - allows swapping between different LLM providers
  */
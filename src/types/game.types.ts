@@ -6,20 +6,27 @@ import type {
   Card,
   PlayerPosition,
   PlayerStyle,
+  PlayerStyleConfig,
   BettingRound,
   Action,
   HandEvaluation,
+  Pot,
 } from './poker.types';
 
 export interface Player {
   position: PlayerPosition;
+  seat: number; // Seat index at the table, clockwise from the hero at 0
   name: string;
   stack: number;
+  startingStack: number; // Stack at the start of the current hand
   holeCards: Card[];
   currentBet: number;
+  totalContribution: number; // Chips put into the pot this hand
   isFolded: boolean;
   isAllIn: boolean;
+  hasActed: boolean; // Acted voluntarily in the current betting round
   style?: PlayerStyle; // Only for AI players
+  profile?: PlayerStyleConfig; // Profile picked for this seat at table setup; kept when the seat is replaced
 }
 
 export type GamePhase =
@@ -36,22 +43,109 @@ export interface GameState {
   pot: number;
   communityCards: Card[];
   players: Player[];
+  tableSize: number; // Seats at the table, including any left empty by eliminations
   currentPlayerIndex: number;
   dealerButtonIndex: number;
   smallBlindIndex: number;
   bigBlindIndex: number;
   smallBlind: number;
   bigBlind: number;
+  ante: number;
+  anteType: AnteType;
+  straddle: boolean; // Straddle when the table is big enough (3+ players)
+  straddleIndex: number | null; // Player who straddled this hand
   currentBet: number;
-  minRaise: number;
+  minRaise: number; // Minimum total bet for a raise
+  lastRaiseSize: number; // Size of the last full bet or raise this round
+  lastFullBet: number; // Bet level set by the last full bet or raise (reopens action)
   actionHistory: Action[];
+  handResult: HandResult | null; // Set once the pot has been awarded
+  deck: Card[]; // Cards left to deal this hand
+  handNumber: number; // Hands dealt this session
+  handSeed: number | null; // Seed the current hand was dealt from
 }
 
 export interface HandResult {
   winner: PlayerPosition;
-  winningHand: HandEvaluation;
+  winners: PlayerPosition[]; // More than one on a split pot
+  winningHand: HandEvaluation | null; // null when everyone else folded before showdown
   potAmount: number;
-  allPlayerHands: Map<PlayerPosition, Card[]>;
+  potResults: PotResult[]; // Main pot first, then side pots
+  payouts: Map<PlayerPosition, number>;
+  netResults: Map<PlayerPosition, number>; // Stack change over the hand
+  allPlayerHands: Map<PlayerPosition, Card[]>; // Hands shown at showdown
+}
+
+/**
+ * Who pays the ante
+ * - per-player: everyone dealt in posts the ante
+ * - big-blind: the big blind posts the whole table's antes (ante x players)
+ */
+export type AnteType = 'per-player' | 'big-blind';
+
+export interface BlindLevel {
+  smallBlind: number;
+  bigBlind: number;
+  ante: number; // Per-player ante, 0 for none
+}
+
+export interface BlindStructure {
+  name: string;
+  levels: BlindLevel[];
+  handsPerLevel: number | null; // Hands before the blinds go up, null to stay on the first level
+  minutesPerLevel?: number; // Go up on a timer instead of by hand count
+}
+
+export type GameMode = 'cash' | 'tournament';
+
+export interface TournamentConfig {
+  startingStack: number; // Chips everyone starts with
+  buyIn: number; // Entry fee; the prize pool is buyIn x entrants
+}
+
+export interface TournamentFinish {
+  player: PlayerPosition;
+  name: string;
+  place: number;
+  prize: number;
+}
+
+export interface TournamentStanding {
+  entrants: number;
+  prizePool: number;
+  prizes: number[]; // Prize for each paid place, 1st first
+  finishes: TournamentFinish[]; // In order of elimination, winner last
+}
+
+/**
+ * Calling an all-in compared with folding, in chips and in prize money
+ */
+export interface AllInCallEV {
+  chipEV: number; // Chips won or lost on average by calling
+  foldEquity: number; // Prize equity after folding
+  callEquity: number; // Prize equity after calling, weighted by the chance to win
+  dollarEV: number; // callEquity - foldEquity
+}
+
+/**
+ * Table settings chosen when a session starts
+ */
+export interface TableConfig {
+  mode: GameMode;
+  seats: number; // 2 (heads-up) to 9
+  blinds: BlindStructure;
+  anteType: AnteType;
+  straddle: boolean; // First player after the big blind straddles to 2 big blinds
+  maxBuyIn: number; // Big blinds the hero rebuys or tops up to (cash games)
+  autoTopUp: boolean; // Top the hero back up to maxBuyIn before every hand (cash games)
+  tournament: TournamentConfig; // Used in tournament mode
+  adaptiveOpponent: boolean; // Seat an opponent that learns and exploits the hero's tendencies
+  lineup: (PlayerStyleConfig | null)[]; // Profile for each opponent seat in turn; null seats a random style
+}
+
+export interface PotResult {
+  pot: Pot;
+  winners: PlayerPosition[];
 }
 
 export interface SessionStats {
@@ -60,9 +154,86 @@ export interface SessionStats {
   totalProfit: number;
   averageGrade?: string;
   gradesReceived: string[];
+  rebuys: number; // Times the hero bought back in after going broke
+  chipsAdded: number; // Total chips the hero added through rebuys and top-ups
+  opponentsBusted: number;
+}
+
+/**
+ * Counts behind a player's HUD stats, kept across a session
+ */
+export interface HudCounts {
+  hands: number; // Hands dealt in
+  vpip: number; // Hands with chips put in voluntarily preflop
+  pfr: number; // Hands raised preflop
+  sawFlop: number;
+  cbetsFaced: number; // Flop bets from the preflop raiser the player had to answer
+  foldsToCbet: number;
+  wentToShowdown: number; // Of the hands that saw a flop
+  postflopBets: number; // Postflop bets and raises
+  postflopCalls: number;
+}
+
+/**
+ * HUD stats as percentages, null until there is a sample
+ */
+export interface HudStats {
+  hands: number;
+  vpip: number | null;
+  pfr: number | null;
+  foldToCbet: number | null;
+  wtsd: number | null; // Went to showdown after seeing the flop
+  aggression: number | null; // Postflop bets and raises per call
+}
+
+/**
+ * Source of random numbers in [0, 1), e.g. Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Something that happened while the engine processed a transition
+ */
+export type EngineEvent =
+  | { type: 'hand-started'; dealerIndex: number; seed: number }
+  | { type: 'action'; action: Action }
+  | { type: 'bet-returned'; player: PlayerPosition; amount: number }
+  | { type: 'street-dealt'; round: BettingRound; cards: Card[] }
+  | { type: 'hand-complete'; result: HandResult }
+  | { type: 'rebuy'; player: PlayerPosition; amount: number }
+  | { type: 'top-up'; player: PlayerPosition; amount: number }
+  | {
+      type: 'seat-replaced';
+      player: PlayerPosition;
+      previousName: string;
+      name: string;
+      style: PlayerStyle;
+      profile?: PlayerStyleConfig; // The seat's profile, when one was picked at table setup
+      stack: number;
+    }
+  | { type: 'player-eliminated'; player: PlayerPosition; name: string; place: number }
+  | { type: 'tournament-complete'; winner: PlayerPosition; name: string };
+
+export interface EngineResult {
+  state: GameState;
+  events: EngineEvent[];
+}
+
+/**
+ * What the player to act may legally do under no-limit rules
+ * Raise amounts are "raise to" totals for the betting round
+ */
+export interface LegalActions {
+  canFold: boolean;
+  canCheck: boolean;
+  canCall: boolean;
+  callAmount: number; // Chips needed to call, capped at the stack
+  canRaise: boolean;
+  minRaiseTo: number; // Smallest legal raise (or the all-in total if the stack is shorter)
+  maxRaiseTo: number; // All-in total
 }
 
 export interface BetAction {
   type: 'fold' | 'check' | 'call' | 'raise' | 'all-in';
-  amount?: number;
+  amount?: number; // Call amount, or total bet for a raise
 }
@@ -5,3 +5,5 @@
 export * from './poker.types';
 export * from './game.types';
 export * from './coach.types';
+export * from './worker.types';
+export * from './range.types';
@@ -26,16 +26,33 @@ export interface HandEvaluation {
   ranking: HandRanking;
   cards: Card[];
   description: string;
+  value: number; // Hand rank from getHandRank: higher beats lower, equal splits
+  /**
+   * Rank values (2-14) that break ties within the ranking, most important
+   * first: quads then kicker, trips then pair, high pair then low pair then
+   * kicker, a straight's top card (5 for a wheel), or every card high to low
+   */
+  tieBreak: number[];
 }
 
-export type PlayerPosition = 'hero' | 'opponent1' | 'opponent2' | 'opponent3';
+/**
+ * Player identifier - the hero, or an AI opponent numbered by seat (opponent1, opponent2, ...)
+ */
+export type PlayerPosition = 'hero' | `opponent${number}`;
 
 export type PlayerStyle =
   | 'tight-aggressive'
   | 'loose-passive'
   | 'loose-aggressive'
   | 'tight-passive'
-  | 'ultra-aggressive';
+  | 'ultra-aggressive'
+  | 'solid-reg'
+  | 'adaptive';
+
+/**
+ * Bet and raise sizes relative to a style's usual ones
+ */
+export type BetSizing = 'small' | 'standard' | 'large' | 'overbet';
 
 export interface PlayerStyleConfig {
   name: string; // e.g., "Sharky", "Fishy", "Donkey"
@@ -44,6 +61,14 @@ export interface PlayerStyleConfig {
   pfr: number; // Pre-Flop Raise percentage (0-100)
   aggression: number; // Aggression factor (0-10)
   bluffFrequency: number; // How often they bluff (0-1)
+  range: string; // Hands they play preflop, in range notation (e.g. "22+, A2s+, KTo+")
+  threeBet?: number; // Re-raises a single raise with this share of hands (0-100)
+  cbet?: number; // Bets the flop this often as the preflop raiser when no one has bet (0-100)
+  foldToThreeBet?: number; // Folds its raise to a re-raise this often, premium hands aside (0-100)
+  sizing?: BetSizing;
+  tilt?: number; // How far a big loss pushes it looser and more aggressive (0-10)
+  adaptive?: boolean; // Adjusts its play to the hero's HUD stats; never seated at random
+  balanced?: boolean; // Plays preflop from the position charts and mixes its postflop bets and bluffs
 }
 
 export type BettingRound = 'preflop' | 'flop' | 'turn' | 'river';
@@ -55,9 +80,15 @@ export type PlayerAction =
   | 'raise'
   | 'all-in';
 
+/**
+ * Named seat relative to the button for the current hand
+ */
+export type TablePosition = 'UTG' | 'UTG+1' | 'UTG+2' | 'MP' | 'HJ' | 'CO' | 'BTN' | 'SB' | 'BB';
+
 export interface Action {
   player: PlayerPosition;
   playerName: string;
+  tablePosition: TablePosition;
   action: PlayerAction;
   amount: number;
   timestamp: number;
@@ -67,4 +98,99 @@ export interface Action {
 export interface Pot {
   total: number;
   contributions: Map<PlayerPosition, number>;
+  eligiblePlayers: PlayerPosition[]; // Non-folded players who covered this pot
+}
+
+/**
+ * Hero's share of the pot, counted exactly or estimated by simulation
+ */
+export interface EquityResult {
+  equity: number; // Percentage (0-100)
+  exact: boolean; // Every possible runout and opponent hand was counted
+  samples: number; // Outcomes counted, or trials run for an estimate
+  confidenceInterval: { low: number; high: number }; // 95% interval; equals equity when exact
+}
+
+/**
+ * One two-card holding in a range, with how often it is in the range (0-1)
+ */
+export interface WeightedCombo {
+  cards: [Card, Card];
+  weight: number;
+}
+
+/**
+ * Kinds of draw an out can complete
+ */
+export type DrawType = 'flush-draw' | 'open-ended' | 'gutshot' | 'set' | 'full-house' | 'overcards';
+
+export interface OutCard {
+  card: Card;
+  draw: DrawType;
+  makes: HandRanking; // Hero's hand once the card lands
+  dirty: boolean; // An opponent could hold a straight or flush that beats it
+}
+
+export interface OutsAnalysis {
+  outs: OutCard[];
+  byDraw: Partial<Record<DrawType, OutCard[]>>;
+  clean: number;
+  dirty: number;
+  discounted: number; // Clean outs plus half of the dirty ones
+}
+
+/**
+ * Implied odds of calling a bet with a draw, one card ahead
+ */
+export interface ImpliedOdds {
+  outs: number;
+  dirtyOuts: number; // Outs that can still complete a better hand for someone else
+  hitChance: number; // Chance of hitting on the next card (0-100)
+  neededWinnings: number | null; // Extra chips to win after hitting to break even; null if no amount is enough
+  reverseImpliedCost: number; // Part of neededWinnings caused by dirty outs
+  effectiveStack: number; // Smaller of the hero's stack after calling and the biggest opponent stack
+  maxWinnings: number; // Most the hero can still win from the players in the hand after calling
+  verdict: 'direct-odds' | 'implied-odds' | 'too-shallow';
+}
+
+/**
+ * How the board's suits line up: rainbow (no two alike), two-tone (a flush
+ * draw is possible), flush-possible (three or more of a suit) or monotone
+ * (every card one suit)
+ */
+export type SuitTexture = 'rainbow' | 'two-tone' | 'flush-possible' | 'monotone';
+
+export type BoardPairing = 'unpaired' | 'paired' | 'two-paired' | 'trips' | 'quads';
+
+/**
+ * connected: a straight is possible; semi-connected: straight draws are possible
+ */
+export type BoardConnectedness = 'connected' | 'semi-connected' | 'disconnected';
+
+export type BoardHighCard = 'ace-high' | 'broadway' | 'middle' | 'low';
+
+export interface BoardTexture {
+  suits: SuitTexture;
+  pairing: BoardPairing;
+  connectedness: BoardConnectedness;
+  highCard: BoardHighCard;
+  wetness: 'dry' | 'semi-wet' | 'wet'; // How many draws the board allows
+  nuts: string; // Best possible hand right now, e.g. "Straight, T high"
+  nutChangers: Card[]; // Next cards that would change the best possible hand
+  summary: string; // e.g. "Two-tone, connected, broadway (wet)"
+}
+
+/**
+ * How the hero's hand ranks against every holding an opponent could have on
+ * the current board
+ */
+export interface RelativeStrength {
+  nutRank: number; // 1 = the nuts, 2 = second-best possible hand, ...
+  nutLabel: string; // e.g. "3rd nuts"
+  madeHand: string; // e.g. "Top pair, 2nd kicker"
+  percentile: number; // Share of holdings beaten (ties count half), 0-100
+  beats: number; // Opponent combos beaten
+  ties: number;
+  loses: number;
+  summary: string; // e.g. "Top pair, 2nd kicker - 3rd nuts, beats 78% of hands"
 }
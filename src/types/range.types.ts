@@ -0,0 +1,17 @@
+/**
+ * Hand ranges by starting-hand class
+ */
+
+/**
+ * Weight (0-1) of each of the 169 starting-hand classes in a range, keyed
+ * "AA", "AKs", "AKo", ...; a class that is missing is not in the range
+ */
+export type HandRange = Record<string, number>;
+
+/**
+ * A range the user has saved under a name, e.g. "my BTN open"
+ */
+export interface SavedRange {
+  name: string;
+  range: HandRange;
+}
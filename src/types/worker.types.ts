@@ -0,0 +1,22 @@
+/**
+ * Message protocol between the app and the equity worker
+ */
+
+import type { Card, EquityResult, WeightedCombo } from './poker.types';
+
+export type EquityWorkerRequest =
+  | {
+      type: 'calculate';
+      id: number; // Responses carry the id of the request they answer
+      heroCards: Card[];
+      communityCards: Card[];
+      opponents: number | WeightedCombo[][]; // Random hands, or one range per opponent
+      maxTrials: number; // Simulation stops here unless the equity can be counted exactly
+    }
+  | { type: 'cancel'; id: number };
+
+export type EquityWorkerResponse =
+  | { type: 'progress'; id: number; result: EquityResult } // Equity over the trials run so far
+  | { type: 'done'; id: number; result: EquityResult }
+  | { type: 'no-combos'; id: number } // A range has nothing left to deal once blocked cards are removed
+  | { type: 'error'; id: number; message: string };
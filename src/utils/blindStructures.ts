@@ -0,0 +1,140 @@
+/**
+ * Blind structures and the schedule that moves through their levels
+ */
+
+import type { BlindLevel, BlindStructure } from '../types';
+
+// Levels for 1500-chip sit and go tournaments
+const SNG_LEVELS: BlindLevel[] = [
+  { smallBlind: 10, bigBlind: 20, ante: 0 },
+  { smallBlind: 15, bigBlind: 30, ante: 0 },
+  { smallBlind: 25, bigBlind: 50, ante: 0 },
+  { smallBlind: 50, bigBlind: 100, ante: 0 },
+  { smallBlind: 75, bigBlind: 150, ante: 15 },
+  { smallBlind: 100, bigBlind: 200, ante: 25 },
+  { smallBlind: 150, bigBlind: 300, ante: 25 },
+  { smallBlind: 200, bigBlind: 400, ante: 50 },
+  { smallBlind: 300, bigBlind: 600, ante: 75 },
+  { smallBlind: 400, bigBlind: 800, ante: 100 },
+];
+
+/**
+ * Built-in blind structures
+ */
+export const BLIND_STRUCTURES: Record<string, BlindStructure> = {
+  cash: {
+    name: '0.5/1 cash',
+    levels: [{ smallBlind: 0.5, bigBlind: 1, ante: 0 }],
+    handsPerLevel: null,
+  },
+  'cash-ante': {
+    name: '0.5/1 + 0.1 ante',
+    levels: [{ smallBlind: 0.5, bigBlind: 1, ante: 0.1 }],
+    handsPerLevel: null,
+  },
+  live: {
+    name: '1/2 live',
+    levels: [{ smallBlind: 1, bigBlind: 2, ante: 0 }],
+    handsPerLevel: null,
+  },
+  rising: {
+    name: 'Rising every 10 hands',
+    levels: [
+      { smallBlind: 0.5, bigBlind: 1, ante: 0 },
+      { smallBlind: 1, bigBlind: 2, ante: 0 },
+      { smallBlind: 1.5, bigBlind: 3, ante: 0.5 },
+      { smallBlind: 2, bigBlind: 4, ante: 0.5 },
+      { smallBlind: 3, bigBlind: 6, ante: 1 },
+      { smallBlind: 5, bigBlind: 10, ante: 1 },
+      { smallBlind: 10, bigBlind: 20, ante: 2 },
+    ],
+    handsPerLevel: 10,
+  },
+  'sng-turbo': {
+    name: 'Sit & Go turbo (every 10 hands)',
+    levels: SNG_LEVELS,
+    handsPerLevel: 10,
+  },
+  'sng-timed': {
+    name: 'Sit & Go (every 5 minutes)',
+    levels: SNG_LEVELS,
+    handsPerLevel: null,
+    minutesPerLevel: 5,
+  },
+};
+
+/**
+ * Get the level index for a hand (stays on the last level once it is reached)
+ * @param structure - Blind structure
+ * @param handNumber - Hand number, starting at 1
+ * @param elapsedMinutes - Time played so far, for structures on a timer (default: 0)
+ */
+export function getBlindLevelIndex(
+  structure: BlindStructure,
+  handNumber: number,
+  elapsedMinutes: number = 0
+): number {
+  let index = 0;
+  if (structure.minutesPerLevel) {
+    index = Math.floor(elapsedMinutes / structure.minutesPerLevel);
+  } else if (structure.handsPerLevel !== null) {
+    index = Math.floor((handNumber - 1) / structure.handsPerLevel);
+  }
+
+  return Math.min(Math.max(index, 0), structure.levels.length - 1);
+}
+
+/**
+ * Get the blinds and ante for a hand
+ * @param structure - Blind structure
+ * @param handNumber - Hand number, starting at 1
+ * @param elapsedMinutes - Time played so far, for structures on a timer (default: 0)
+ */
+export function getBlindLevel(
+  structure: BlindStructure,
+  handNumber: number,
+  elapsedMinutes: number = 0
+): BlindLevel {
+  return structure.levels[getBlindLevelIndex(structure, handNumber, elapsedMinutes)];
+}
+
+/**
+ * Get how many more hands are played at the level of the given hand
+ * @returns Hands left including this one, or null if the blinds never go up
+ */
+export function getHandsLeftInLevel(structure: BlindStructure, handNumber: number): number | null {
+  const index = getBlindLevelIndex(structure, handNumber);
+  if (
+    structure.handsPerLevel === null ||
+    structure.minutesPerLevel ||
+    index === structure.levels.length - 1
+  ) {
+    return null;
+  }
+
+  return (index + 1) * structure.handsPerLevel - handNumber + 1;
+}
+
+/**
+ * Get the time left before the blinds go up on a timed structure
+ * @returns Minutes left, or null if the structure is not on a timer or is on its last level
+ */
+export function getMinutesLeftInLevel(
+  structure: BlindStructure,
+  elapsedMinutes: number
+): number | null {
+  if (!structure.minutesPerLevel) return null;
+
+  const index = getBlindLevelIndex(structure, 1, elapsedMinutes);
+  if (index === structure.levels.length - 1) return null;
+
+  return (index + 1) * structure.minutesPerLevel - elapsedMinutes;
+}
+
+/**
+ * Format a blind level for display (e.g., "1/2 ante 0.5")
+ */
+export function formatBlindLevel(level: BlindLevel): string {
+  const blinds = `${level.smallBlind}/${level.bigBlind}`;
+  return level.ante > 0 ? `${blinds} ante ${level.ante}` : blinds;
+}
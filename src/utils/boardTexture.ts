@@ -0,0 +1,184 @@
+/**
+ * Board texture analysis
+ * Describes how a flop, turn or river plays: suits, pairing, connectedness,
+ * height, how drawy it is and what the nuts are
+ */
+
+import type {
+  BoardConnectedness,
+  BoardHighCard,
+  BoardPairing,
+  BoardTexture,
+  Card,
+  SuitTexture,
+} from '../types';
+import { evaluateHand } from './handEvaluator';
+import { decodeCard, encodeCards, rankCodes } from './handRank';
+
+const SUIT_LABELS: Record<SuitTexture, string> = {
+  rainbow: 'Rainbow',
+  'two-tone': 'Two-tone',
+  'flush-possible': 'Flush possible',
+  monotone: 'Monotone',
+};
+
+const PAIRING_LABELS: Record<BoardPairing, string | null> = {
+  unpaired: null,
+  paired: 'paired',
+  'two-paired': 'double-paired',
+  trips: 'trips on board',
+  quads: 'quads on board',
+};
+
+// Every player acting on a street asks about the same board, so keep the last answer
+let lastBoardKey = '';
+let lastTexture: BoardTexture | null = null;
+
+/**
+ * Analyse the texture of the community cards
+ * @param communityCards - Flop, turn or river (3-5 cards)
+ * @returns Texture, with the nuts and the cards that would change them
+ */
+export function analyzeBoardTexture(communityCards: Card[]): BoardTexture {
+  if (communityCards.length < 3 || communityCards.length > 5) {
+    throw new Error('Board texture needs a flop, turn or river');
+  }
+
+  const boardKey = communityCards.map(card => card.rank + card.suit).join();
+  if (lastTexture && boardKey === lastBoardKey) return lastTexture;
+
+  const suits = getSuitTexture(communityCards);
+  const pairing = getPairing(communityCards);
+  const connectedness = getConnectedness(communityCards);
+  const highCard = getHighCardClass(communityCards);
+
+  // Flush and straight possibilities make a board wet; a pair calms it down slightly
+  const drawScore =
+    (suits === 'monotone' || suits === 'flush-possible' ? 2 : suits === 'two-tone' ? 1 : 0) +
+    (connectedness === 'connected' ? 2 : connectedness === 'semi-connected' ? 1 : 0) -
+    (pairing === 'unpaired' ? 0 : 1);
+  const wetness = drawScore >= 3 ? 'wet' : drawScore >= 1 ? 'semi-wet' : 'dry';
+
+  const boardCodes = encodeCards(communityCards);
+  const nuts = getNuts(boardCodes);
+  const nutChangers: Card[] = [];
+  if (communityCards.length < 5) {
+    for (const code of getUnseenCodes(boardCodes)) {
+      if (getNuts([...boardCodes, code]) !== nuts) {
+        nutChangers.push(decodeCard(code));
+      }
+    }
+  }
+
+  const summary = [SUIT_LABELS[suits], PAIRING_LABELS[pairing], connectedness, highCard]
+    .filter(Boolean)
+    .join(', ');
+
+  lastBoardKey = boardKey;
+  lastTexture = {
+    suits,
+    pairing,
+    connectedness,
+    highCard,
+    wetness,
+    nuts,
+    nutChangers,
+    summary: `${summary} (${wetness})`,
+  };
+  return lastTexture;
+}
+
+/**
+ * Does the board have three or more cards of one suit?
+ */
+export function isFlushPossible(texture: BoardTexture): boolean {
+  return texture.suits === 'monotone' || texture.suits === 'flush-possible';
+}
+
+function getSuitTexture(cards: Card[]): SuitTexture {
+  const counts = new Map<string, number>();
+  cards.forEach(card => counts.set(card.suit, (counts.get(card.suit) ?? 0) + 1));
+  const maxSuit = Math.max(...counts.values());
+
+  if (maxSuit === cards.length) return 'monotone';
+  if (maxSuit >= 3) return 'flush-possible';
+  return maxSuit === 2 ? 'two-tone' : 'rainbow';
+}
+
+function getPairing(cards: Card[]): BoardPairing {
+  const counts = new Map<string, number>();
+  cards.forEach(card => counts.set(card.rank, (counts.get(card.rank) ?? 0) + 1));
+  const groups = Array.from(counts.values()).sort((a, b) => b - a);
+
+  if (groups[0] === 4) return 'quads';
+  if (groups[0] === 3) return 'trips';
+  if (groups[0] === 2) return groups[1] === 2 ? 'two-paired' : 'paired';
+  return 'unpaired';
+}
+
+/**
+ * Most distinct board ranks inside any five-rank straight window (A counts low too)
+ */
+function getConnectedness(cards: Card[]): BoardConnectedness {
+  const rankValues = new Set(cards.map(card => RANK_VALUES[card.rank]));
+  if (rankValues.has(14)) rankValues.add(1);
+
+  let best = 0;
+  for (let low = 1; low <= 10; low++) {
+    let inWindow = 0;
+    for (let value = low; value < low + 5; value++) {
+      if (rankValues.has(value)) inWindow++;
+    }
+    best = Math.max(best, inWindow);
+  }
+
+  if (best >= 3) return 'connected';
+  return best === 2 ? 'semi-connected' : 'disconnected';
+}
+
+function getHighCardClass(cards: Card[]): BoardHighCard {
+  const high = Math.max(...cards.map(card => RANK_VALUES[card.rank]));
+  if (high === 14) return 'ace-high';
+  if (high >= 10) return 'broadway';
+  return high >= 7 ? 'middle' : 'low';
+}
+
+const RANK_VALUES: Record<Card['rank'], number> = {
+  '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
+  'T': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14,
+};
+
+function getUnseenCodes(deadCodes: number[]): number[] {
+  const codes: number[] = [];
+  for (let code = 0; code < 52; code++) {
+    if (!deadCodes.includes(code)) codes.push(code);
+  }
+  return codes;
+}
+
+/**
+ * Best hand any two unseen cards can make with the board
+ * @returns Its description, e.g. "Three of a Kind, Ks" (kickers are ignored)
+ */
+function getNuts(boardCodes: number[]): string {
+  const unseen = getUnseenCodes(boardCodes);
+  const hand = new Int32Array(2 + boardCodes.length);
+  hand.set(boardCodes, 2);
+
+  let best = -1;
+  let bestHole: number[] = [];
+  for (let i = 0; i < unseen.length; i++) {
+    for (let j = i + 1; j < unseen.length; j++) {
+      hand[0] = unseen[i];
+      hand[1] = unseen[j];
+      const handRank = rankCodes(hand);
+      if (handRank > best) {
+        best = handRank;
+        bestHole = [unseen[i], unseen[j]];
+      }
+    }
+  }
+
+  const cards = [...bestHole, ...boardCodes].map(decodeCard);
+  return evaluateHand(cards).description;
+}
@@ -2,7 +2,8 @@
  * Deck utilities for creating, shuffling, and dealing cards
  */
 
-import type { Card, Rank, Suit } from '../types';
+import type { Card, RandomSource, Rank, Suit } from '../types';
+import { shuffleArray } from './random';
 
 const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
@@ -24,16 +25,11 @@ export function createDeck(): Card[] {
 
 /**
  * Shuffle a deck using Fisher-Yates algorithm
+ * @param deck - The deck to shuffle
+ * @param random - Random source (default: Math.random)
  */
-export function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
-
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-
-  return shuffled;
+export function shuffleDeck(deck: Card[], random: RandomSource = Math.random): Card[] {
+  return shuffleArray(deck, random);
 }
 
 /**
@@ -55,9 +51,10 @@ export function dealCards(deck: Card[], count: number): { cards: Card[]; remaini
 
 /**
  * Create and shuffle a new deck
+ * @param random - Random source (default: Math.random)
  */
-export function createShuffledDeck(): Card[] {
-  return shuffleDeck(createDeck());
+export function createShuffledDeck(random: RandomSource = Math.random): Card[] {
+  return shuffleDeck(createDeck(), random);
 }
 
 /**
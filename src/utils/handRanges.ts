@@ -0,0 +1,305 @@
+/**
+ * Hand range parsing in standard notation
+ * e.g. "22+, A2s+, KTo+, QJs:0.5, AhKh" - a ":weight" suffix (0-1) puts a hand
+ * in the range only part of the time. Ranges are either weighted combos (for
+ * equity) or a HandRange of the 169 starting-hand classes (for the grid).
+ */
+
+import type { Card, HandRange, Rank, Suit, WeightedCombo } from '../types';
+
+const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+const SUIT_LETTERS: Record<string, Suit> = { h: 'hearts', d: 'diamonds', c: 'clubs', s: 'spades' };
+
+/** Number of distinct two-card holdings */
+export const TOTAL_COMBOS = 1326;
+
+/**
+ * Parse a range string into weighted combos
+ * Supports pairs (QQ, 22+, 55-99), suited/offsuit/any hands (AKs, KTo, AK),
+ * kicker runs (A2s+, A2s-A5s) and exact holdings (AhKh). A hand listed twice
+ * keeps the last weight given.
+ * @param text - Range in standard notation, comma or space separated
+ * @returns Every combo in the range
+ */
+export function parseRange(text: string): WeightedCombo[] {
+  const combos = new Map<string, WeightedCombo>();
+
+  for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+    const [hand, weightText] = token.split(':');
+    const weight = weightText === undefined ? 1 : Number(weightText);
+    if (!(weight >= 0 && weight <= 1)) {
+      throw new Error(`Invalid weight in range token "${token}"`);
+    }
+
+    for (const cards of expandHand(hand, token)) {
+      combos.set(getComboKey(cards), { cards, weight });
+    }
+  }
+
+  return Array.from(combos.values()).filter(combo => combo.weight > 0);
+}
+
+/**
+ * Remove combos that use a card already seen (hero's cards, the board)
+ * @param combos - Range to filter
+ * @param deadCards - Cards that cannot be in anyone else's hand
+ */
+export function removeBlockedCombos(combos: WeightedCombo[], deadCards: Card[]): WeightedCombo[] {
+  return combos.filter(
+    combo => !combo.cards.some(card =>
+      deadCards.some(dead => dead.rank === card.rank && dead.suit === card.suit)
+    )
+  );
+}
+
+/**
+ * Get the share of all holdings a range covers
+ * @param combos - Range to measure
+ * @returns Percentage of the 1326 holdings (0-100), weights counted
+ */
+export function getRangePercentage(combos: WeightedCombo[]): number {
+  const weighted = combos.reduce((sum, combo) => sum + combo.weight, 0);
+  return Math.round((weighted / TOTAL_COMBOS) * 1000) / 10;
+}
+
+/**
+ * The 169 starting-hand classes in 13x13 grid order: rows and columns run
+ * A down to 2, pairs on the diagonal, suited hands above it, offsuit below
+ */
+export const HAND_CLASSES: string[] = (() => {
+  const descending = [...RANKS].reverse();
+  return descending.flatMap((rowRank, row) =>
+    descending.map((colRank, col) => {
+      if (row === col) return rowRank + colRank;
+      return row < col ? `${rowRank}${colRank}s` : `${colRank}${rowRank}o`;
+    })
+  );
+})();
+
+/**
+ * Get the starting-hand class of a holding (e.g. "AKs", "T9o", "77")
+ */
+export function getHandClass(cards: [Card, Card]): string {
+  const [first, second] = cards;
+  const [high, low] = isHigher(first.rank, second.rank) ? [first, second] : [second, first];
+  if (high.rank === low.rank) return high.rank + low.rank;
+  return `${high.rank}${low.rank}${high.suit === low.suit ? 's' : 'o'}`;
+}
+
+/**
+ * Number of combos in a starting-hand class: 6 for a pair, 4 suited, 12 offsuit
+ */
+export function getClassComboCount(handClass: string): number {
+  if (handClass.length === 2) return 6;
+  return handClass[2] === 's' ? 4 : 12;
+}
+
+/**
+ * Group weighted combos into starting-hand classes
+ * A class only partly covered (e.g. just AhKh of AKs) gets the average weight
+ * of its combos
+ * @param combos - Range as weighted combos
+ */
+export function toHandRange(combos: WeightedCombo[]): HandRange {
+  const range: HandRange = {};
+  for (const combo of combos) {
+    const handClass = getHandClass(combo.cards);
+    range[handClass] = (range[handClass] ?? 0) + combo.weight / getClassComboCount(handClass);
+  }
+  for (const handClass of Object.keys(range)) {
+    range[handClass] = Math.round(range[handClass] * 1000) / 1000;
+  }
+  return range;
+}
+
+/**
+ * Parse a range string into starting-hand classes
+ * @param text - Range in standard notation, as for parseRange
+ */
+export function parseHandRange(text: string): HandRange {
+  return toHandRange(parseRange(text));
+}
+
+/**
+ * Write a range in standard notation, the shortest way parseHandRange reads
+ * back: runs of equal weight become "22+", "55-99", "KTs+" or "A2s-A5s"
+ * @param range - Range to write
+ * @returns e.g. "TT+, AQs+, KQs:0.5, AKo"
+ */
+export function serializeHandRange(range: HandRange): string {
+  const descending = [...RANKS].reverse();
+  const tokens: string[] = [];
+
+  // Pairs, from AA down
+  tokens.push(
+    ...getWeightRuns(descending.map(rank => rank + rank), range).map(run => {
+      const [top, bottom] = [run.classes[0], run.classes[run.classes.length - 1]];
+      const text =
+        run.classes.length === 1 ? top
+        : top === 'AA' ? `${bottom}+`
+        : `${bottom}-${top}`;
+      return formatToken(text, run.weight);
+    })
+  );
+
+  // Suited then offsuit hands for each top card, best kicker first
+  descending.forEach((high, index) => {
+    const kickers = descending.slice(index + 1);
+    (['s', 'o'] as const).forEach(kind => {
+      const classes = kickers.map(kicker => `${high}${kicker}${kind}`);
+      getWeightRuns(classes, range).forEach(run => {
+        const [top, bottom] = [run.classes[0], run.classes[run.classes.length - 1]];
+        const text =
+          run.classes.length === 1 ? top
+          : top === classes[0] ? `${bottom}+`
+          : `${bottom}-${top}`;
+        tokens.push(formatToken(text, run.weight));
+      });
+    });
+  });
+
+  return tokens.join(', ');
+}
+
+/**
+ * Expand a range into its combos, dropping any that use a dead card
+ * @param range - Starting-hand classes with weights
+ * @param deadCards - Cards that cannot be in the hand (hero's cards, the board)
+ */
+export function expandHandRange(range: HandRange, deadCards: Card[] = []): WeightedCombo[] {
+  const combos = Object.entries(range)
+    .filter(([, weight]) => weight > 0)
+    .flatMap(([handClass, weight]) =>
+      getHandCombos(handClass[0], handClass[1], handClass[2] ?? '').map(cards => ({ cards, weight }))
+    );
+  return removeBlockedCombos(combos, deadCards);
+}
+
+/**
+ * Get the share of all holdings a hand range covers
+ * @returns Percentage of the 1326 holdings (0-100), weights counted
+ */
+export function getHandRangePercentage(range: HandRange): number {
+  const weighted = Object.entries(range).reduce(
+    (sum, [handClass, weight]) => sum + weight * getClassComboCount(handClass),
+    0
+  );
+  return Math.round((weighted / TOTAL_COMBOS) * 1000) / 10;
+}
+
+/**
+ * Split classes (in order) into runs of the same non-zero weight
+ */
+function getWeightRuns(classes: string[], range: HandRange): { classes: string[]; weight: number }[] {
+  const runs: { classes: string[]; weight: number }[] = [];
+  let previous = 0;
+
+  for (const handClass of classes) {
+    const weight = range[handClass] ?? 0;
+    if (weight > 0 && weight === previous) {
+      runs[runs.length - 1].classes.push(handClass);
+    } else if (weight > 0) {
+      runs.push({ classes: [handClass], weight });
+    }
+    previous = weight;
+  }
+
+  return runs;
+}
+
+function formatToken(text: string, weight: number): string {
+  return weight === 1 ? text : `${text}:${weight}`;
+}
+
+/**
+ * Unique key for a holding, the same whichever card comes first
+ */
+export function getComboKey(cards: [Card, Card]): string {
+  const [a, b] = cards.map(card => `${card.rank}${card.suit[0]}`);
+  return a < b ? a + b : b + a;
+}
+
+/**
+ * Expand one hand of a range (without its weight) into its combos
+ */
+function expandHand(hand: string, token: string): [Card, Card][] {
+  // Exact holding, e.g. AhKh
+  const exact = hand.match(/^([2-9TJQKA])([hdcs])([2-9TJQKA])([hdcs])$/);
+  if (exact) {
+    const first: Card = { rank: exact[1] as Rank, suit: SUIT_LETTERS[exact[2]] };
+    const second: Card = { rank: exact[3] as Rank, suit: SUIT_LETTERS[exact[4]] };
+    if (first.rank === second.rank && first.suit === second.suit) {
+      throw new Error(`Invalid range token "${token}"`);
+    }
+    return [[first, second]];
+  }
+
+  // Dash run, e.g. 55-99 or A2s-A5s
+  const run = hand.match(/^([2-9TJQKA])([2-9TJQKA])([so]?)-([2-9TJQKA])([2-9TJQKA])([so]?)$/);
+  if (run) {
+    const [, high1, low1, kind1, high2, low2, kind2] = run;
+    const isPairRun = high1 === low1 && high2 === low2;
+    if (isPairRun) {
+      return getRankSpan(high1, high2).flatMap(rank => getHandCombos(rank, rank, ''));
+    }
+    if (high1 !== high2 || kind1 !== kind2 || !isHigher(high1, low1) || !isHigher(high1, low2)) {
+      throw new Error(`Invalid range token "${token}"`);
+    }
+    return getRankSpan(low1, low2).flatMap(rank => getHandCombos(high1, rank, kind1));
+  }
+
+  // Single hand, optionally with "+", e.g. QQ, 22+, AKs, KTo+
+  const single = hand.match(/^([2-9TJQKA])([2-9TJQKA])([so]?)(\+?)$/);
+  if (!single) {
+    throw new Error(`Invalid range token "${token}"`);
+  }
+
+  const [, high, low, kind, plus] = single;
+  if (high === low) {
+    if (kind) throw new Error(`Invalid range token "${token}"`);
+    const ranks = plus ? getRankSpan(high, 'A') : [high];
+    return ranks.flatMap(rank => getHandCombos(rank, rank, ''));
+  }
+  if (!isHigher(high, low)) {
+    throw new Error(`Invalid range token "${token}"`);
+  }
+
+  // "+" raises the kicker up to one below the top card
+  const kickers = plus ? getRankSpan(low, RANKS[RANKS.indexOf(high as Rank) - 1]) : [low];
+  return kickers.flatMap(kicker => getHandCombos(high, kicker, kind));
+}
+
+/**
+ * Every combo of two ranks: 6 for a pair, 4 suited, 12 offsuit, 16 for either
+ */
+function getHandCombos(high: string, low: string, kind: string): [Card, Card][] {
+  const combos: [Card, Card][] = [];
+
+  SUITS.forEach((suit1, i) => {
+    SUITS.forEach((suit2, j) => {
+      if (high === low && j <= i) return;
+      if (kind === 's' && suit1 !== suit2) return;
+      if (kind === 'o' && suit1 === suit2) return;
+      combos.push([
+        { rank: high as Rank, suit: suit1 },
+        { rank: low as Rank, suit: suit2 },
+      ]);
+    });
+  });
+
+  return combos;
+}
+
+/**
+ * Ranks from one to another inclusive, in either order
+ */
+function getRankSpan(from: string, to: string): string[] {
+  const start = RANKS.indexOf(from as Rank);
+  const end = RANKS.indexOf(to as Rank);
+  return RANKS.slice(Math.min(start, end), Math.max(start, end) + 1);
+}
+
+function isHigher(rank: string, than: string): boolean {
+  return RANKS.indexOf(rank as Rank) > RANKS.indexOf(than as Rank);
+}
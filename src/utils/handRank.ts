@@ -0,0 +1,244 @@
+/**
+ * Fast hand ranking on integer-encoded cards
+ * A card is rank index * 4 + suit index (0-51) and a hand's rank is a single
+ * number: higher beats lower, equal numbers split the pot. Simulations use
+ * this directly; evaluateHand builds its readable HandEvaluation on top.
+ */
+
+import type { Card, HandRanking, Rank, Suit } from '../types';
+
+const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+
+/**
+ * Hand categories, weakest first; a hand rank is category * 2^20 plus five
+ * 4-bit rank indexes in tie-break order
+ */
+const CATEGORIES: HandRanking[] = [
+  'high-card',
+  'pair',
+  'two-pair',
+  'three-of-a-kind',
+  'straight',
+  'flush',
+  'full-house',
+  'four-of-a-kind',
+  'straight-flush',
+];
+
+const HIGH_CARD = 0;
+const PAIR = 1;
+const TWO_PAIR = 2;
+const THREE_OF_A_KIND = 3;
+const STRAIGHT = 4;
+const FLUSH = 5;
+const FULL_HOUSE = 6;
+const FOUR_OF_A_KIND = 7;
+const STRAIGHT_FLUSH = 8;
+
+/** How many tie-break ranks each category uses */
+const TIE_BREAK_LENGTHS = [5, 4, 3, 3, 1, 5, 2, 2, 1];
+
+const CATEGORY_SHIFT = 1 << 20;
+const ACE = 12;
+const FIVE = 3;
+
+/**
+ * Top rank of the best straight in a 13-bit rank mask, or -1 for none
+ * (the wheel A-2-3-4-5 counts as five high)
+ */
+const STRAIGHT_HIGH = (() => {
+  const table = new Int8Array(1 << 13).fill(-1);
+  const wheel = (1 << ACE) | 0b1111;
+
+  for (let mask = 0; mask < table.length; mask++) {
+    for (let high = ACE; high >= 4; high--) {
+      const run = 0b11111 << (high - 4);
+      if ((mask & run) === run) {
+        table[mask] = high;
+        break;
+      }
+    }
+    if (table[mask] < 0 && (mask & wheel) === wheel) table[mask] = FIVE;
+  }
+
+  return table;
+})();
+
+/** Number of ranks present in a 13-bit rank mask */
+const BIT_COUNT = (() => {
+  const table = new Uint8Array(1 << 13);
+  for (let mask = 1; mask < table.length; mask++) {
+    table[mask] = table[mask >> 1] + (mask & 1);
+  }
+  return table;
+})();
+
+// Scratch space reused by every call (evaluation is synchronous)
+const rankCounts = new Uint8Array(13);
+
+/**
+ * Encode a card as an integer (0-51)
+ */
+export function encodeCard(card: Card): number {
+  return RANKS.indexOf(card.rank) * 4 + SUITS.indexOf(card.suit);
+}
+
+/**
+ * Encode several cards
+ */
+export function encodeCards(cards: Card[]): number[] {
+  return cards.map(encodeCard);
+}
+
+/**
+ * Turn an encoded card back into a Card
+ */
+export function decodeCard(code: number): Card {
+  return { rank: RANKS[code >> 2], suit: SUITS[code & 3] };
+}
+
+/**
+ * Rank the best 5-card hand in 5 to 7 encoded cards
+ * @param codes - Encoded cards
+ * @param length - How many of the codes to use (default: all)
+ * @returns Hand rank; compare two ranks with plain < and >
+ */
+export function rankCodes(codes: ArrayLike<number>, length: number = codes.length): number {
+  let rankMask = 0;
+  let hearts = 0;
+  let diamonds = 0;
+  let clubs = 0;
+  let spades = 0;
+  rankCounts.fill(0);
+
+  for (let i = 0; i < length; i++) {
+    const code = codes[i];
+    const rank = code >> 2;
+    const bit = 1 << rank;
+    rankCounts[rank]++;
+    rankMask |= bit;
+    switch (code & 3) {
+      case 0: hearts |= bit; break;
+      case 1: diamonds |= bit; break;
+      case 2: clubs |= bit; break;
+      default: spades |= bit;
+    }
+  }
+
+  // With at most 7 cards a flush rules out quads and full houses
+  const flushMask =
+    BIT_COUNT[hearts] >= 5 ? hearts
+    : BIT_COUNT[diamonds] >= 5 ? diamonds
+    : BIT_COUNT[clubs] >= 5 ? clubs
+    : BIT_COUNT[spades] >= 5 ? spades
+    : 0;
+  if (flushMask) {
+    const straightFlushHigh = STRAIGHT_HIGH[flushMask];
+    if (straightFlushHigh >= 0) return makeRank(STRAIGHT_FLUSH, straightFlushHigh);
+    return packTopRanks(FLUSH * CATEGORY_SHIFT, flushMask, 5, 16);
+  }
+
+  let quads = -1;
+  let trips = -1;
+  let secondTrips = -1;
+  let pair = -1;
+  let secondPair = -1;
+  for (let rank = ACE; rank >= 0; rank--) {
+    const count = rankCounts[rank];
+    if (count === 4) quads = rank;
+    else if (count === 3) {
+      if (trips < 0) trips = rank;
+      else if (secondTrips < 0) secondTrips = rank;
+    } else if (count === 2) {
+      if (pair < 0) pair = rank;
+      else if (secondPair < 0) secondPair = rank;
+    }
+  }
+
+  if (quads >= 0) {
+    return packTopRanks(makeRank(FOUR_OF_A_KIND, quads), rankMask & ~(1 << quads), 1, 12);
+  }
+
+  if (trips >= 0 && (secondTrips >= 0 || pair >= 0)) {
+    return makeRank(FULL_HOUSE, trips, Math.max(secondTrips, pair));
+  }
+
+  const straightHigh = STRAIGHT_HIGH[rankMask];
+  if (straightHigh >= 0) return makeRank(STRAIGHT, straightHigh);
+
+  if (trips >= 0) {
+    return packTopRanks(makeRank(THREE_OF_A_KIND, trips), rankMask & ~(1 << trips), 2, 12);
+  }
+
+  if (secondPair >= 0) {
+    const kickers = rankMask & ~(1 << pair) & ~(1 << secondPair);
+    return packTopRanks(makeRank(TWO_PAIR, pair, secondPair), kickers, 1, 8);
+  }
+
+  if (pair >= 0) {
+    return packTopRanks(makeRank(PAIR, pair), rankMask & ~(1 << pair), 3, 12);
+  }
+
+  return packTopRanks(HIGH_CARD * CATEGORY_SHIFT, rankMask, 5, 16);
+}
+
+/**
+ * Rank the best 5-card hand in 5 to 7 cards
+ * @param cards - Cards to rank
+ * @returns Hand rank; higher is better
+ */
+export function getHandRank(cards: Card[]): number {
+  if (cards.length < 5 || cards.length > 7) {
+    throw new Error('Need 5 to 7 cards to rank a hand');
+  }
+  return rankCodes(encodeCards(cards));
+}
+
+/**
+ * Get the hand category of a rank
+ */
+export function getRankingFromRank(handRank: number): HandRanking {
+  const category = Math.floor(handRank / CATEGORY_SHIFT);
+  if (category === STRAIGHT_FLUSH && getTieBreakRanks(handRank)[0] === ACE) {
+    return 'royal-flush';
+  }
+  return CATEGORIES[category];
+}
+
+/**
+ * Get the ranks that decide ties, most important first
+ * (e.g. a full house gives the trips rank then the pair rank)
+ * @returns Rank indexes (0 = '2' ... 12 = 'A')
+ */
+export function getTieBreakRanks(handRank: number): number[] {
+  const category = Math.floor(handRank / CATEGORY_SHIFT);
+  const groups = [0, 0, 0, 0, 0].map((_, i) => (handRank >> (16 - i * 4)) & 0xf);
+  return groups.slice(0, TIE_BREAK_LENGTHS[category]);
+}
+
+/**
+ * Convert a rank index from getTieBreakRanks to a Rank
+ */
+export function getRankFromIndex(index: number): Rank {
+  return RANKS[index];
+}
+
+function makeRank(category: number, first: number, second: number = 0): number {
+  return category * CATEGORY_SHIFT + (first << 16) + (second << 12);
+}
+
+/**
+ * Add the top ranks of a mask to a hand rank, starting at a bit shift
+ */
+function packTopRanks(handRank: number, mask: number, count: number, shift: number): number {
+  let result = handRank;
+  for (let rank = ACE; rank >= 0 && count > 0; rank--) {
+    if (mask & (1 << rank)) {
+      result += rank << shift;
+      shift -= 4;
+      count--;
+    }
+  }
+  return result;
+}
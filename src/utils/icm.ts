@@ -0,0 +1,127 @@
+/**
+ * Independent Chip Model (ICM) for tournament decisions
+ * Turns chip stacks into shares of the prize pool, so a decision can be
+ * judged by money won ($EV) and not just chips won (chip EV)
+ */
+
+import type { AllInCallEV, GameState } from '../types';
+import { roundChips } from './pokerLogic';
+
+/**
+ * Get each player's share of the prize pool (Malmuth-Harville model)
+ * A player's chance to finish in a place is their share of the chips left
+ * once the players above them are removed
+ * @param stacks - Chip stack of each player still in the tournament
+ * @param prizes - Prize for each paid place, 1st first
+ * @returns Prize money each player can expect, in the same order as stacks
+ */
+export function calculateICM(stacks: number[], prizes: number[]): number[] {
+  const equities = new Array<number>(stacks.length).fill(0);
+  const totalChips = stacks.reduce((sum, stack) => sum + stack, 0);
+  if (totalChips === 0) return equities;
+
+  const placesPaid = Math.min(prizes.length, stacks.length);
+
+  // Walk every finishing order for the paid places, carrying its probability
+  const visit = (place: number, remaining: number, probability: number, finished: number) => {
+    if (place >= placesPaid) return;
+
+    stacks.forEach((stack, index) => {
+      if (stack <= 0 || finished & (1 << index)) return;
+
+      const p = probability * (stack / remaining);
+      equities[index] += p * prizes[place];
+      visit(place + 1, remaining - stack, p, finished | (1 << index));
+    });
+  };
+
+  visit(0, totalChips, 1, 0);
+  return equities.map(equity => Math.round(equity * 100) / 100);
+}
+
+/**
+ * Get the prizes for a sit and go
+ * Up to 3 players pay the winner only, up to 6 pay two places, bigger fields pay three
+ * @param entrants - Players who started the tournament
+ * @param prizePool - Total prize money
+ */
+export function getTournamentPrizes(entrants: number, prizePool: number): number[] {
+  const shares = entrants <= 3 ? [1] : entrants <= 6 ? [0.65, 0.35] : [0.5, 0.3, 0.2];
+  return shares.map(share => Math.round(share * prizePool * 100) / 100);
+}
+
+/**
+ * Check for a push/fold spot: calling puts the hero all-in or calls someone
+ * else's all-in
+ * @param gameState - State with the hero to act
+ * @param heroIndex - Hero's player index
+ */
+export function isFacingAllIn(gameState: GameState, heroIndex: number): boolean {
+  const { players, currentBet } = gameState;
+  const hero = players[heroIndex];
+  const callAmount = Math.min(roundChips(currentBet - hero.currentBet), hero.stack);
+  const bettor = players.find(
+    (p, index) => index !== heroIndex && !p.isFolded && p.currentBet === currentBet
+  );
+  return callAmount > 0 && (callAmount === hero.stack || !!bettor?.isAllIn);
+}
+
+/**
+ * Compare calling an all-in with folding, in chips and in prize money
+ * Assumes nobody else still to act calls, and treats the hero's share of a
+ * showdown as winning the whole pot (equity covers ties)
+ * @param gameState - State with the hero facing an all-in
+ * @param heroIndex - Hero's player index
+ * @param equity - Hero's chance to win the pot (0-100)
+ * @param prizes - Prize for each paid place, 1st first
+ */
+export function calculateAllInCallEV(
+  gameState: GameState,
+  heroIndex: number,
+  equity: number,
+  prizes: number[]
+): AllInCallEV {
+  const { players, currentBet } = gameState;
+  const hero = players[heroIndex];
+
+  // The player whose bet the hero would be calling
+  const villainIndex = players.findIndex(
+    (p, index) => index !== heroIndex && !p.isFolded && p.currentBet === currentBet
+  );
+  const villain = players[villainIndex];
+
+  const callAmount = Math.min(roundChips(currentBet - hero.currentBet), hero.stack);
+
+  // If the hero is covered, the part of the villain's bet they cannot call goes back
+  const uncalled = Math.max(0, roundChips(villain.currentBet - (hero.currentBet + callAmount)));
+  const potAfterCall = roundChips(gameState.pot - uncalled + callAmount);
+
+  const stacks = players.map(p => p.stack);
+
+  // Fold: the villain takes the pot as it stands
+  const foldStacks = [...stacks];
+  foldStacks[villainIndex] = roundChips(foldStacks[villainIndex] + gameState.pot);
+
+  // Call and win: the hero takes the pot; the villain keeps any uncalled chips
+  const winStacks = [...stacks];
+  winStacks[heroIndex] = roundChips(hero.stack - callAmount + potAfterCall);
+  winStacks[villainIndex] = roundChips(villain.stack + uncalled);
+
+  // Call and lose: the villain takes it all
+  const loseStacks = [...stacks];
+  loseStacks[heroIndex] = roundChips(hero.stack - callAmount);
+  loseStacks[villainIndex] = roundChips(villain.stack + uncalled + potAfterCall);
+
+  const winChance = equity / 100;
+  const foldEquity = calculateICM(foldStacks, prizes)[heroIndex];
+  const callEquity =
+    winChance * calculateICM(winStacks, prizes)[heroIndex] +
+    (1 - winChance) * calculateICM(loseStacks, prizes)[heroIndex];
+
+  return {
+    chipEV: roundChips(winChance * potAfterCall - callAmount),
+    foldEquity,
+    callEquity: Math.round(callEquity * 100) / 100,
+    dollarEV: Math.round((callEquity - foldEquity) * 100) / 100,
+  };
+}
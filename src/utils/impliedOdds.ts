@@ -0,0 +1,93 @@
+/**
+ * Implied and reverse-implied odds
+ * When the pot does not pay enough for a draw, works out how much more the
+ * hero has to win after hitting, whether the stacks behind can cover it, and
+ * how much of it goes to paying off better hands when a dirty out comes
+ */
+
+import type { DrawSpot, GameState, ImpliedOdds } from '../types';
+import { analyzeOuts } from './outs';
+import { roundChips } from './pokerLogic';
+
+/**
+ * Work out the implied odds of calling a bet with a draw
+ * Looks one card ahead. A clean out wins the pot plus the later winnings; a
+ * dirty out is taken to win half the time and, the other half, lose the call
+ * plus the same amount again to the better hand.
+ * @param gameState - State with the hero facing a bet on the flop or turn
+ * @param heroIndex - Hero's player index
+ * @returns Implied odds, or null when the hero faces no bet or has no outs
+ */
+export function calculateStackImpliedOdds(gameState: GameState, heroIndex: number): ImpliedOdds | null {
+  const { players, communityCards, currentBet, pot } = gameState;
+  const hero = players[heroIndex];
+  const callAmount = Math.min(roundChips(currentBet - hero.currentBet), hero.stack);
+  if (callAmount <= 0 || hero.holeCards.length !== 2) return null;
+
+  const analysis = analyzeOuts(hero.holeCards, communityCards);
+  if (analysis.outs.length === 0) return null;
+
+  const unseenCards = 52 - 2 - communityCards.length;
+  const hitChance = analysis.outs.length / unseenCards;
+  const cleanChance = analysis.clean / unseenCards;
+  const dirtyChance = analysis.dirty / unseenCards;
+  const missChance = 1 - hitChance;
+
+  // Break-even later winnings, first as if every out were clean, then with dirty outs
+  const plainNeeded = (missChance * callAmount - hitChance * pot) / hitChance;
+  const fullNeeded =
+    cleanChance > 0
+      ? (missChance * callAmount - cleanChance * pot - (dirtyChance / 2) * (pot - 2 * callAmount)) / cleanChance
+      : null;
+
+  const heroBehind = roundChips(hero.stack - callAmount);
+  const opponentStacks = players
+    .filter((p, index) => index !== heroIndex && !p.isFolded)
+    .map(p => p.stack);
+  const effectiveStack = Math.min(heroBehind, Math.max(0, ...opponentStacks));
+  const maxWinnings = roundChips(
+    opponentStacks.reduce((sum, stack) => sum + Math.min(heroBehind, stack), 0)
+  );
+
+  // With only dirty outs, winning more later cannot make up for paying off
+  const directlyProfitable =
+    fullNeeded !== null
+      ? fullNeeded <= 0
+      : (dirtyChance / 2) * (pot - 2 * callAmount) >= missChance * callAmount;
+  const neededWinnings = directlyProfitable
+    ? 0
+    : fullNeeded === null ? null : roundChips(fullNeeded);
+
+  return {
+    outs: analysis.outs.length,
+    dirtyOuts: analysis.dirty,
+    hitChance: Math.round(hitChance * 1000) / 10,
+    neededWinnings,
+    reverseImpliedCost:
+      neededWinnings === null ? 0 : roundChips(Math.max(0, neededWinnings - Math.max(0, plainNeeded))),
+    effectiveStack,
+    maxWinnings,
+    verdict: directlyProfitable
+      ? 'direct-odds'
+      : neededWinnings !== null && neededWinnings <= maxWinnings ? 'implied-odds' : 'too-shallow',
+  };
+}
+
+/**
+ * Record the bet a player faces with a draw, for the coach
+ * @param gameState - State with the player to act
+ * @param playerIndex - Index of the player facing the bet
+ * @returns The spot, or null when there is no bet to call or no draw
+ */
+export function getDrawSpot(gameState: GameState, playerIndex: number): DrawSpot | null {
+  const odds = calculateStackImpliedOdds(gameState, playerIndex);
+  if (!odds) return null;
+
+  const player = gameState.players[playerIndex];
+  return {
+    ...odds,
+    round: gameState.bettingRound,
+    pot: gameState.pot,
+    callAmount: Math.min(roundChips(gameState.currentBet - player.currentBet), player.stack),
+  };
+}
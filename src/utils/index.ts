@@ -6,3 +6,14 @@ export * from './deckUtils';
 export * from './handEvaluator';
 export * from './oddsCalculator';
 export * from './pokerLogic';
+export * from './sidePots';
+export * from './random';
+export * from './positions';
+export * from './blindStructures';
+export * from './icm';
+export * from './handRanges';
+export * from './handRank';
+export * from './outs';
+export * from './boardTexture';
+export * from './relativeStrength';
+export * from './impliedOdds';
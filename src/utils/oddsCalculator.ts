@@ -2,9 +2,10 @@
  * Poker odds calculator for pot odds, equity, and outs
  */
 
-import type { Card, Rank } from '../types';
-import { evaluateHand, compareHands } from './handEvaluator';
-import { createDeck } from './deckUtils';
+import type { Card, EquityResult, RandomSource, WeightedCombo } from '../types';
+import { encodeCards, rankCodes } from './handRank';
+import { removeBlockedCombos } from './handRanges';
+import { analyzeOuts } from './outs';
 
 /**
  * Calculate pot odds (ratio of pot size to call amount)
@@ -19,11 +20,41 @@ export function calculatePotOdds(potSize: number, callAmount: number): number {
 }
 
 /**
- * Calculate hand equity using Monte Carlo simulation
+ * Most outcomes (runouts x opponent hands) calculateEquityResult will count
+ * one by one before switching to simulation; heads-up on the flop
+ * (1,070,190 outcomes) is just inside it
+ */
+export const EXACT_EQUITY_LIMIT = 1_100_000;
+
+/**
+ * Calculate hand equity, counting every outcome when there are few enough
+ * and falling back to Monte Carlo simulation otherwise
  * @param heroCards - Hero's hole cards
  * @param communityCards - Current community cards
  * @param numOpponents - Number of opponents
- * @param iterations - Number of simulations (default: 1000)
+ * @param options - Trials for simulation, the exact-count limit and the random source
+ * @returns Equity with whether it is exact, or its 95% confidence interval
+ */
+export function calculateEquityResult(
+  heroCards: Card[],
+  communityCards: Card[],
+  numOpponents: number = 1,
+  options: { iterations?: number; exactLimit?: number; random?: RandomSource } = {}
+): EquityResult {
+  const { iterations = 1000, exactLimit = EXACT_EQUITY_LIMIT, random = Math.random } = options;
+
+  return (
+    getExactEquity(heroCards, communityCards, numOpponents, exactLimit) ??
+    createEquitySimulation(heroCards, communityCards, numOpponents, random).run(iterations)
+  );
+}
+
+/**
+ * Calculate hand equity (exact when few outcomes remain, simulated otherwise)
+ * @param heroCards - Hero's hole cards
+ * @param communityCards - Current community cards
+ * @param numOpponents - Number of opponents
+ * @param iterations - Number of simulations when not exact (default: 1000)
  * @returns Equity as a percentage (0-100)
  */
 export function calculateEquity(
@@ -32,118 +63,519 @@ export function calculateEquity(
   numOpponents: number = 1,
   iterations: number = 1000
 ): number {
-  let wins = 0;
-  let ties = 0;
-
-  // Get all known cards
-  const knownCards = [...heroCards, ...communityCards];
-
-  // Create deck without known cards
-  const fullDeck = createDeck();
-  const availableCards = fullDeck.filter(
-    card => !knownCards.some(
-      known => known.rank === card.rank && known.suit === card.suit
-    )
+  return calculateEquityResult(heroCards, communityCards, numOpponents, { iterations }).equity;
+}
+
+/**
+ * Count equity exactly, if there are few enough outcomes to count
+ * @param heroCards - Hero's hole cards
+ * @param communityCards - Current community cards
+ * @param opponents - Number of opponents with random hands, or one range per opponent
+ * @param exactLimit - Most outcomes to count (default: EXACT_EQUITY_LIMIT)
+ * @returns Exact equity, or null when there are too many outcomes
+ */
+export function getExactEquity(
+  heroCards: Card[],
+  communityCards: Card[],
+  opponents: number | WeightedCombo[][],
+  exactLimit: number = EXACT_EQUITY_LIMIT
+): EquityResult | null {
+  const heroCodes = encodeCards(heroCards);
+  const boardCodes = encodeCards(communityCards);
+  const remainingCommunityCount = 5 - communityCards.length;
+
+  if (typeof opponents !== 'number') {
+    const ranges = encodeRanges(getHeroRange(heroCards), opponents, heroCards, communityCards);
+    const runoutCount = countCombinations(52 - communityCards.length - 4, remainingCommunityCount);
+    if (ranges.length !== 2 || ranges[1].length * runoutCount > exactLimit) return null;
+    return enumerateRangeEquity(ranges[0], ranges[1], boardCodes);
+  }
+
+  const availableCodes = getDeckCodes([...heroCodes, ...boardCodes]);
+  assertEnoughCards(availableCodes.length, remainingCommunityCount, opponents);
+  if (countOutcomes(availableCodes.length, remainingCommunityCount, opponents) > exactLimit) {
+    return null;
+  }
+  return enumerateEquity(heroCodes, boardCodes, availableCodes, opponents);
+}
+
+/**
+ * Monte Carlo equity that can be run a batch of trials at a time
+ */
+export interface EquitySimulation {
+  /** Run more trials and return the equity over every trial so far */
+  run(trials: number): EquityResult;
+}
+
+/**
+ * Start a Monte Carlo equity simulation
+ * @param heroCards - Hero's hole cards
+ * @param communityCards - Current community cards
+ * @param opponents - Number of opponents with random hands, or one range per opponent
+ * @param random - Random source (default: Math.random)
+ */
+export function createEquitySimulation(
+  heroCards: Card[],
+  communityCards: Card[],
+  opponents: number | WeightedCombo[][],
+  random: RandomSource = Math.random
+): EquitySimulation {
+  const boardCodes = encodeCards(communityCards);
+
+  if (typeof opponents !== 'number') {
+    const ranges = encodeRanges(getHeroRange(heroCards), opponents, heroCards, communityCards);
+    return createTrialRunner(createRangeTrial(ranges, boardCodes, random));
+  }
+
+  const heroCodes = encodeCards(heroCards);
+  const availableCodes = getDeckCodes([...heroCodes, ...boardCodes]);
+  assertEnoughCards(availableCodes.length, 5 - communityCards.length, opponents);
+  return createTrialRunner(
+    createRandomHandTrial(heroCodes, boardCodes, availableCodes, opponents, random)
   );
+}
 
-  for (let i = 0; i < iterations; i++) {
-    // Shuffle available cards
-    const shuffled = [...availableCards].sort(() => Math.random() - 0.5);
+function assertEnoughCards(deckSize: number, boardCards: number, numOpponents: number): void {
+  if (deckSize < boardCards + numOpponents * 2) {
+    throw new Error('Not enough cards left to deal to every opponent');
+  }
+}
 
-    // Deal remaining community cards
-    const remainingCommunityCount = 5 - communityCards.length;
-    const simulatedCommunity = [
-      ...communityCards,
-      ...shuffled.slice(0, remainingCommunityCount)
-    ];
+/**
+ * Encoded cards of a full deck minus the dead ones
+ */
+function getDeckCodes(deadCodes: number[]): number[] {
+  const codes: number[] = [];
+  for (let code = 0; code < 52; code++) {
+    if (!deadCodes.includes(code)) codes.push(code);
+  }
+  return codes;
+}
 
-    // Deal opponent cards
-    let deckIndex = remainingCommunityCount;
-    const opponentHands: Card[][] = [];
+/**
+ * Number of ways to deal the rest of the board and every opponent's hand
+ */
+function countOutcomes(deckSize: number, boardCards: number, numOpponents: number): number {
+  let outcomes = countCombinations(deckSize, boardCards);
+  let cardsLeft = deckSize - boardCards;
 
-    for (let j = 0; j < numOpponents; j++) {
-      opponentHands.push(shuffled.slice(deckIndex, deckIndex + 2));
-      deckIndex += 2;
+  for (let i = 0; i < numOpponents; i++) {
+    outcomes *= countCombinations(cardsLeft, 2);
+    cardsLeft -= 2;
+  }
+
+  return outcomes;
+}
+
+function countCombinations(n: number, k: number): number {
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result = (result * (n - i)) / (i + 1);
+  }
+  return result;
+}
+
+/**
+ * Call back with every k-card combination of the cards not yet marked used,
+ * marking the chosen cards used while the callback runs
+ * @param codes - Cards to choose from
+ * @param used - Per-code flags, shared with nested calls
+ * @param chosen - Buffer the combination is written to, starting at offset
+ */
+function forEachCombination(
+  codes: number[],
+  k: number,
+  used: Uint8Array,
+  chosen: Int32Array,
+  offset: number,
+  callback: () => void
+): void {
+  const visit = (start: number, depth: number) => {
+    if (depth === k) {
+      callback();
+      return;
+    }
+    for (let i = start; i <= codes.length - (k - depth); i++) {
+      const code = codes[i];
+      if (used[code]) continue;
+      used[code] = 1;
+      chosen[offset + depth] = code;
+      visit(i + 1, depth + 1);
+      used[code] = 0;
     }
+  };
 
-    // Evaluate all hands
-    const heroHand = evaluateHand([...heroCards, ...simulatedCommunity]);
-    const opponentEvals = opponentHands.map(oppCards =>
-      evaluateHand([...oppCards, ...simulatedCommunity])
-    );
-
-    // Determine winner
-    let heroWins = true;
-    let isTie = false;
-
-    for (const oppHand of opponentEvals) {
-      const result = compareHands(heroHand, oppHand);
-      if (result < 0) {
-        heroWins = false;
-        break;
-      } else if (result === 0) {
-        isTie = true;
-      }
+  visit(0, 0);
+}
+
+/**
+ * Hero's share of the pot for one outcome: 1 for a win, split evenly on a tie
+ */
+function getPotShare(heroRank: number, opponentRanks: ArrayLike<number>, count: number): number {
+  let tiedWith = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (opponentRanks[i] > heroRank) return 0;
+    if (opponentRanks[i] === heroRank) tiedWith++;
+  }
+
+  return 1 / (tiedWith + 1);
+}
+
+/**
+ * Count every runout and every opponent holding, each with equal weight
+ */
+function enumerateEquity(
+  heroCodes: number[],
+  boardCodes: number[],
+  availableCodes: number[],
+  numOpponents: number
+): EquityResult {
+  // Hand buffers are [two hole cards, five board cards]
+  const heroHand = new Int32Array(7);
+  const opponentHand = new Int32Array(7);
+  const opponentRanks = new Int32Array(numOpponents);
+  const used = new Uint8Array(52);
+  heroHand.set(heroCodes);
+  heroHand.set(boardCodes, 2);
+
+  let total = 0;
+  let outcomes = 0;
+  let heroRank = 0;
+
+  // Deal opponents one at a time from what is left
+  const dealOpponents = (opponent: number) => {
+    if (opponent === numOpponents) {
+      total += getPotShare(heroRank, opponentRanks, numOpponents);
+      outcomes++;
+      return;
     }
+    forEachCombination(availableCodes, 2, used, opponentHand, 0, () => {
+      opponentRanks[opponent] = rankCodes(opponentHand);
+      dealOpponents(opponent + 1);
+    });
+  };
+
+  forEachCombination(availableCodes, 5 - boardCodes.length, used, heroHand, 2 + boardCodes.length, () => {
+    heroRank = rankCodes(heroHand);
+    opponentHand.set(heroHand.subarray(2), 2);
+    dealOpponents(0);
+  });
+
+  const equity = Math.round((total / outcomes) * 1000) / 10;
+  return { equity, exact: true, samples: outcomes, confidenceInterval: { low: equity, high: equity } };
+}
 
-    if (heroWins && !isTie) {
-      wins++;
-    } else if (heroWins && isTie) {
-      ties++;
+/**
+ * One random runout and set of opponent hands per call
+ * @returns Trial that returns the hero's share of the pot
+ */
+function createRandomHandTrial(
+  heroCodes: number[],
+  boardCodes: number[],
+  availableCodes: number[],
+  numOpponents: number,
+  random: RandomSource
+): () => number {
+  const remainingCommunityCount = 5 - boardCodes.length;
+  const cardsNeeded = remainingCommunityCount + numOpponents * 2;
+  const deck = Int32Array.from(availableCodes);
+  const heroHand = new Int32Array(7);
+  const opponentHand = new Int32Array(7);
+  const opponentRanks = new Int32Array(numOpponents);
+  heroHand.set(heroCodes);
+  heroHand.set(boardCodes, 2);
+  opponentHand.set(boardCodes, 2);
+
+  return () => {
+    // Partial Fisher-Yates: only the cards this trial deals need to be random
+    for (let j = 0; j < cardsNeeded; j++) {
+      const k = j + Math.floor(random() * (deck.length - j));
+      const card = deck[j];
+      deck[j] = deck[k];
+      deck[k] = card;
     }
-  }
 
-  const equity = ((wins + ties * 0.5) / iterations) * 100;
-  return Math.round(equity * 10) / 10;
+    for (let j = 0; j < remainingCommunityCount; j++) {
+      heroHand[2 + boardCodes.length + j] = deck[j];
+      opponentHand[2 + boardCodes.length + j] = deck[j];
+    }
+    const heroRank = rankCodes(heroHand);
+    for (let j = 0; j < numOpponents; j++) {
+      opponentHand[0] = deck[remainingCommunityCount + j * 2];
+      opponentHand[1] = deck[remainingCommunityCount + j * 2 + 1];
+      opponentRanks[j] = rankCodes(opponentHand);
+    }
+
+    return getPotShare(heroRank, opponentRanks, numOpponents);
+  };
+}
+
+/**
+ * Keep running totals of trial results so a simulation can go in batches
+ */
+function createTrialRunner(trial: () => number): EquitySimulation {
+  let total = 0;
+  let totalSquares = 0;
+  let trials = 0;
+
+  return {
+    run(count: number): EquityResult {
+      for (let i = 0; i < count; i++) {
+        const share = trial();
+        total += share;
+        totalSquares += share * share;
+      }
+      trials += count;
+      return summarizeTrials(total, totalSquares, trials);
+    },
+  };
+}
+
+/**
+ * Calculate equity of a range against one or more opponent ranges
+ * Combos that share a card with the board or with each other are never dealt
+ * together. Exact against a single range when few enough outcomes remain,
+ * simulated otherwise.
+ * @param heroRange - Hero's range (a single combo for a known hand)
+ * @param villainRanges - One range per opponent still in the hand
+ * @param communityCards - Current community cards
+ * @param options - Trials for simulation, the exact-count limit and the random source
+ * @returns Hero's equity, weighted by how often each combo is in its range
+ */
+export function calculateRangeEquity(
+  heroRange: WeightedCombo[],
+  villainRanges: WeightedCombo[][],
+  communityCards: Card[],
+  options: { iterations?: number; exactLimit?: number; random?: RandomSource } = {}
+): EquityResult {
+  const { iterations = 1000, exactLimit = EXACT_EQUITY_LIMIT, random = Math.random } = options;
+
+  const ranges = encodeRanges(heroRange, villainRanges, [], communityCards);
+  const boardCodes = encodeCards(communityCards);
+  const runoutCount = countCombinations(52 - communityCards.length - 4, 5 - communityCards.length);
+  if (
+    villainRanges.length === 1 &&
+    ranges[0].length * ranges[1].length * runoutCount <= exactLimit
+  ) {
+    return enumerateRangeEquity(ranges[0], ranges[1], boardCodes);
+  }
+  return createTrialRunner(createRangeTrial(ranges, boardCodes, random)).run(iterations);
 }
 
 /**
- * Count outs (cards that improve your hand)
+ * Calculate equity of known hole cards against opponent ranges
  * @param heroCards - Hero's hole cards
  * @param communityCards - Current community cards
- * @returns Number of outs
+ * @param villainRanges - One range per opponent still in the hand
+ * @param options - Trials for simulation, the exact-count limit and the random source
  */
-export function countOuts(heroCards: Card[], communityCards: Card[]): number {
-  if (communityCards.length >= 5) return 0;
+export function calculateEquityVsRanges(
+  heroCards: Card[],
+  communityCards: Card[],
+  villainRanges: WeightedCombo[][],
+  options: { iterations?: number; exactLimit?: number; random?: RandomSource } = {}
+): EquityResult {
+  const { iterations = 1000, exactLimit = EXACT_EQUITY_LIMIT, random = Math.random } = options;
+
+  return (
+    getExactEquity(heroCards, communityCards, villainRanges, exactLimit) ??
+    createEquitySimulation(heroCards, communityCards, villainRanges, random).run(iterations)
+  );
+}
+
+function getHeroRange(heroCards: Card[]): WeightedCombo[] {
+  return [{ cards: [heroCards[0], heroCards[1]], weight: 1 }];
+}
 
-  const knownCards = [...heroCards, ...communityCards];
-  const fullDeck = createDeck();
+/**
+ * Encode every player's range, dropping combos that use a dead card
+ * @param heroRange - Hero's range, first in the result
+ * @param villainRanges - Opponent ranges, which also lose combos using heroDeadCards
+ * @param heroDeadCards - Hero's known cards (none for a hero range)
+ * @param communityCards - Board cards, dead for everyone
+ */
+function encodeRanges(
+  heroRange: WeightedCombo[],
+  villainRanges: WeightedCombo[][],
+  heroDeadCards: Card[],
+  communityCards: Card[]
+): EncodedCombo[][] {
+  const ranges = [
+    removeBlockedCombos(heroRange, communityCards),
+    ...villainRanges.map(range => removeBlockedCombos(range, [...heroDeadCards, ...communityCards])),
+  ];
+  if (ranges.some(range => range.length === 0)) {
+    throw new Error('A range has no combos left once blocked cards are removed');
+  }
 
-  // Get available cards
-  const availableCards = fullDeck.filter(
-    card => !knownCards.some(
-      known => known.rank === card.rank && known.suit === card.suit
-    )
+  return ranges.map(range =>
+    range.map(combo => ({ codes: encodeCards(combo.cards), weight: combo.weight }))
   );
+}
 
-  // Current hand evaluation
-  const currentHand = evaluateHand(knownCards.length >= 5 ? knownCards : [...knownCards, ...createDummyCards(5 - knownCards.length)]);
+/** A range combo as encoded cards */
+interface EncodedCombo {
+  codes: number[];
+  weight: number;
+}
 
-  let outs = 0;
+function sharesCard(a: number[], b: number[]): boolean {
+  return a[0] === b[0] || a[0] === b[1] || a[1] === b[0] || a[1] === b[1];
+}
 
-  // Check each available card
-  for (const card of availableCards) {
-    const newCommunity = [...communityCards, card];
-    const newHand = evaluateHand([...heroCards, ...newCommunity, ...createDummyCards(Math.max(0, 5 - newCommunity.length))]);
+/**
+ * Count every pair of combos and every runout, weighted by combo weights
+ */
+function enumerateRangeEquity(
+  heroRange: EncodedCombo[],
+  villainRange: EncodedCombo[],
+  boardCodes: number[]
+): EquityResult {
+  const deck = getDeckCodes(boardCodes);
+  const heroHand = new Int32Array(7);
+  const villainHand = new Int32Array(7);
+  const used = new Uint8Array(52);
+  heroHand.set(boardCodes, 2);
+  let total = 0;
+  let totalWeight = 0;
+  let outcomes = 0;
+
+  for (const hero of heroRange) {
+    for (const villain of villainRange) {
+      if (sharesCard(hero.codes, villain.codes)) continue;
+
+      const weight = hero.weight * villain.weight;
+      const dead = [...hero.codes, ...villain.codes];
+      dead.forEach(code => (used[code] = 1));
+      heroHand.set(hero.codes);
+
+      forEachCombination(deck, 5 - boardCodes.length, used, heroHand, 2 + boardCodes.length, () => {
+        villainHand.set(heroHand);
+        villainHand.set(villain.codes);
+        const share = getPotShare(rankCodes(heroHand), [rankCodes(villainHand)], 1);
+        total += weight * share;
+        totalWeight += weight;
+        outcomes++;
+      });
+
+      dead.forEach(code => (used[code] = 0));
+    }
+  }
+
+  if (totalWeight === 0) {
+    throw new Error('Ranges cannot be dealt without sharing cards');
+  }
+
+  const equity = Math.round((total / totalWeight) * 1000) / 10;
+  return { equity, exact: true, samples: outcomes, confidenceInterval: { low: equity, high: equity } };
+}
+
+/**
+ * Deal each player a combo in proportion to its weight (redealing when two
+ * combos collide) and a random runout, once per call
+ * @returns Trial that returns the share of the pot for the first range
+ */
+function createRangeTrial(
+  ranges: EncodedCombo[][],
+  boardCodes: number[],
+  random: RandomSource
+): () => number {
+  const maxAttempts = 1000;
+  const remainingCommunityCount = 5 - boardCodes.length;
+  const deck = getDeckCodes(boardCodes);
+  const hand = new Int32Array(7);
+  const ranks = new Int32Array(ranges.length);
+  const used = new Uint8Array(52);
+  hand.set(boardCodes, 2);
+
+  // Running weight totals so a combo can be picked with one binary search
+  const cumulativeWeights = ranges.map(range => {
+    let sum = 0;
+    return range.map(combo => (sum += combo.weight));
+  });
+  const pickCombo = (playerIndex: number): EncodedCombo => {
+    const weights = cumulativeWeights[playerIndex];
+    const target = random() * weights[weights.length - 1];
+    let low = 0;
+    let high = weights.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (weights[mid] > target) high = mid;
+      else low = mid + 1;
+    }
+    return ranges[playerIndex][low];
+  };
+
+  return () => {
+    let hands: EncodedCombo[] | null = null;
+    for (let attempt = 0; attempt < maxAttempts && !hands; attempt++) {
+      const dealt: EncodedCombo[] = [];
+      for (let p = 0; p < ranges.length; p++) {
+        const combo = pickCombo(p);
+        if (dealt.some(other => sharesCard(other.codes, combo.codes))) break;
+        dealt.push(combo);
+      }
+      if (dealt.length === ranges.length) hands = dealt;
+    }
+    if (!hands) {
+      throw new Error('Ranges cannot be dealt without sharing cards');
+    }
 
-    // If hand improved, count as an out
-    if (compareHands(newHand, currentHand) > 0) {
-      outs++;
+    // Deal the runout from the cards nobody holds
+    hands.forEach(combo => combo.codes.forEach(code => (used[code] = 1)));
+    for (let j = 0; j < remainingCommunityCount; j++) {
+      let code: number;
+      do {
+        code = deck[Math.floor(random() * deck.length)];
+      } while (used[code]);
+      used[code] = 1;
+      hand[2 + boardCodes.length + j] = code;
     }
+    used.fill(0);
+
+    hands.forEach((combo, p) => {
+      hand[0] = combo.codes[0];
+      hand[1] = combo.codes[1];
+      ranks[p] = rankCodes(hand);
+    });
+
+    return getPotShare(ranks[0], ranks.subarray(1), ranges.length - 1);
+  };
+}
+
+/**
+ * Equity and its 95% interval from the normal approximation to the sample mean
+ */
+function summarizeTrials(total: number, totalSquares: number, iterations: number): EquityResult {
+  if (iterations === 0) {
+    return { equity: 0, exact: false, samples: 0, confidenceInterval: { low: 0, high: 100 } };
   }
 
-  return outs;
+  const mean = total / iterations;
+  const variance = Math.max(0, totalSquares / iterations - mean * mean);
+  const margin = 1.96 * Math.sqrt(variance / iterations);
+  const toPercentage = (value: number) => Math.round(value * 1000) / 10;
+
+  return {
+    equity: toPercentage(mean),
+    exact: false,
+    samples: iterations,
+    confidenceInterval: {
+      low: toPercentage(Math.max(0, mean - margin)),
+      high: toPercentage(Math.min(1, mean + margin)),
+    },
+  };
 }
 
 /**
- * Create dummy cards for hand evaluation (used when fewer than 5 community cards)
+ * Count outs (cards that complete one of the hero's draws)
+ * @param heroCards - Hero's hole cards
+ * @param communityCards - Current community cards
+ * @returns Number of outs (see analyzeOuts for draws and dirty outs)
  */
-function createDummyCards(count: number): Card[] {
-  const dummyRanks: Rank[] = ['2', '3', '4', '5', '6'];
-  return Array.from({ length: count }, (_, i) => ({
-    rank: dummyRanks[i % 5],
-    suit: 'clubs' as const
-  }));
+export function countOuts(heroCards: Card[], communityCards: Card[]): number {
+  return analyzeOuts(heroCards, communityCards).outs.length;
 }
 
 /**
@@ -221,29 +653,6 @@ export function calculateImpliedOdds(
   return calculatePotOdds(totalPot, callAmount);
 }
 
-/**
- * Get common drawing hand outs
- */
-export const COMMON_OUTS = {
-  gutshot: 4,              // Inside straight draw (e.g., 5-6-8-9, need 7)
-  openEnded: 8,            // Open-ended straight draw (e.g., 5-6-7-8, need 4 or 9)
-  flushDraw: 9,            // Need one more card of suit
-  straightAndFlushDraw: 15, // Combo draw
-  overcard: 6,             // Two overcards (e.g., AK on 872)
-  pairToPips: 2,          // Pair trying to hit trips
-  pairToSet: 2,           // Pocket pair to set
-  twoOvercards: 6,        // Both hole cards higher than board
-};
-
-/**
- * Estimate outs for common situations
- * @param situation - Type of drawing hand
- * @returns Estimated number of outs
- */
-export function getEstimatedOuts(situation: keyof typeof COMMON_OUTS): number {
-  return COMMON_OUTS[situation];
-}
-
 /**
  * Calculate probability of hitting by the river
  * @param outs - Number of outs
@@ -0,0 +1,161 @@
+/**
+ * Outs analysis
+ * Finds every card that completes one of the hero's draws, names the draw,
+ * and flags "dirty" outs that can still lose to a straight or flush
+ */
+
+import type { Card, DrawType, HandRanking, OutCard, OutsAnalysis } from '../types';
+import { decodeCard, encodeCards, getRankingFromRank, rankCodes } from './handRank';
+
+/**
+ * Display names for each draw
+ */
+export const DRAW_LABELS: Record<DrawType, string> = {
+  'flush-draw': 'Flush draw',
+  'open-ended': 'Open-ended straight draw',
+  'gutshot': 'Gutshot',
+  'set': 'Set',
+  'full-house': 'Full house',
+  'overcards': 'Overcards',
+};
+
+const CATEGORY_ORDER: HandRanking[] = [
+  'high-card',
+  'pair',
+  'two-pair',
+  'three-of-a-kind',
+  'straight',
+  'flush',
+  'full-house',
+  'four-of-a-kind',
+  'straight-flush',
+  'royal-flush',
+];
+
+const PAIR = CATEGORY_ORDER.indexOf('pair');
+const THREE_OF_A_KIND = CATEGORY_ORDER.indexOf('three-of-a-kind');
+const STRAIGHT = CATEGORY_ORDER.indexOf('straight');
+const FLUSH = CATEGORY_ORDER.indexOf('flush');
+const FULL_HOUSE = CATEGORY_ORDER.indexOf('full-house');
+const STRAIGHT_FLUSH = CATEGORY_ORDER.indexOf('straight-flush');
+
+const getCategory = (handRank: number) => CATEGORY_ORDER.indexOf(getRankingFromRank(handRank));
+
+/**
+ * Find the hero's outs on the flop or turn
+ * A card is an out when it completes a flush or straight, turns a pocket pair
+ * into a set, fills up two pair or trips, or pairs a hole card above the board -
+ * and the hero's hole cards play (the board alone does not make the same hand).
+ * Each out is listed once, under the strongest draw it completes.
+ * @param heroCards - Hero's hole cards
+ * @param communityCards - Flop or turn (no outs are reported otherwise)
+ * @returns Outs grouped by draw, with clean, dirty and discounted counts
+ */
+export function analyzeOuts(heroCards: Card[], communityCards: Card[]): OutsAnalysis {
+  const analysis: OutsAnalysis = { outs: [], byDraw: {}, clean: 0, dirty: 0, discounted: 0 };
+  if (heroCards.length !== 2 || communityCards.length < 3 || communityCards.length > 4) {
+    return analysis;
+  }
+
+  const heroCodes = encodeCards(heroCards);
+  const boardCodes = encodeCards(communityCards);
+  const unseen: number[] = [];
+  for (let code = 0; code < 52; code++) {
+    if (!heroCodes.includes(code) && !boardCodes.includes(code)) unseen.push(code);
+  }
+
+  const heroRanks = heroCodes.map(code => code >> 2);
+  const heroSuits = heroCodes.map(code => code & 3);
+  const isPocketPair = heroRanks[0] === heroRanks[1];
+  const boardHigh = Math.max(...boardCodes.map(code => code >> 2));
+  const currentCategory = getCategory(rankCodes([...heroCodes, ...boardCodes]));
+
+  const outs: { code: number; draw: DrawType; handRank: number }[] = [];
+  const straightOutRanks = new Set<number>();
+
+  for (const code of unseen) {
+    const newBoard = [...boardCodes, code];
+    const handRank = rankCodes([...heroCodes, ...newBoard]);
+    const category = getCategory(handRank);
+
+    // On the river the board alone can make the hand; then the hole cards do not play
+    if (newBoard.length === 5 && rankCodes(newBoard) === handRank) continue;
+
+    const rank = code >> 2;
+    let draw: DrawType | null = null;
+
+    const makesFlush = category === FLUSH || category >= STRAIGHT_FLUSH;
+    if (makesFlush && currentCategory < FLUSH && heroSuits.includes(code & 3)) {
+      draw = 'flush-draw';
+    }
+    if (!draw && category === STRAIGHT && currentCategory < STRAIGHT) {
+      draw = 'open-ended'; // Split into open-ended and gutshot once every straight out is known
+      straightOutRanks.add(rank);
+    }
+    if (!draw && isPocketPair && rank === heroRanks[0] && currentCategory < THREE_OF_A_KIND) {
+      draw = 'set';
+    }
+    if (!draw && category >= FULL_HOUSE && currentCategory < FULL_HOUSE) {
+      draw = 'full-house';
+    }
+    if (!draw && !isPocketPair && heroRanks.includes(rank) && rank > boardHigh &&
+        currentCategory <= PAIR) {
+      draw = 'overcards';
+    }
+
+    if (draw) outs.push({ code, draw, handRank });
+  }
+
+  // Two or more ranks (open-ended or double gutshot) make 8 outs; one rank is a gutshot
+  const straightDraw: DrawType = straightOutRanks.size >= 2 ? 'open-ended' : 'gutshot';
+
+  for (const out of outs) {
+    const draw = out.draw === 'open-ended' ? straightDraw : out.draw;
+    const dirty = canLoseToStraightOrFlush(out.handRank, [...boardCodes, out.code], unseen, out.code);
+    const outCard: OutCard = {
+      card: decodeCard(out.code),
+      draw,
+      makes: getRankingFromRank(out.handRank),
+      dirty,
+    };
+
+    analysis.outs.push(outCard);
+    (analysis.byDraw[draw] ??= []).push(outCard);
+    if (dirty) analysis.dirty++;
+    else analysis.clean++;
+  }
+
+  analysis.discounted = analysis.clean + analysis.dirty / 2;
+  return analysis;
+}
+
+/**
+ * Could an opponent hold a straight or flush (or straight flush) that beats
+ * the hero's improved hand on this board?
+ */
+function canLoseToStraightOrFlush(
+  heroRank: number,
+  board: number[],
+  unseen: number[],
+  outCode: number
+): boolean {
+  const hand = new Int32Array(2 + board.length);
+  hand.set(board, 2);
+
+  for (let i = 0; i < unseen.length; i++) {
+    if (unseen[i] === outCode) continue;
+    for (let j = i + 1; j < unseen.length; j++) {
+      if (unseen[j] === outCode) continue;
+      hand[0] = unseen[i];
+      hand[1] = unseen[j];
+
+      const opponentRank = rankCodes(hand);
+      if (opponentRank <= heroRank) continue;
+
+      const category = getCategory(opponentRank);
+      if (category === STRAIGHT || category === FLUSH || category >= STRAIGHT_FLUSH) return true;
+    }
+  }
+
+  return false;
+}
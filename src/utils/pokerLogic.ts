@@ -2,7 +2,20 @@
  * General poker game logic and validation utilities
  */
 
-import type { Player, GameState, BetAction, PlayerPosition } from '../types';
+import type {
+  Player,
+  GameState,
+  BetAction,
+  PlayerPosition,
+  Card,
+  HandEvaluation,
+  HandResult,
+  Pot,
+  PotResult,
+  RandomSource,
+  LegalActions,
+} from '../types';
+import { evaluateHand, compareHands } from './handEvaluator';
 
 /**
  * Calculate minimum raise amount
@@ -14,15 +27,15 @@ import type { Player, GameState, BetAction, PlayerPosition } from '../types';
 export function calculateMinRaise(currentBet: number, lastRaise: number, bigBlind: number): number {
   // Minimum raise is the current bet plus the last raise amount
   // If no raise yet, minimum is current bet + big blind
-  return currentBet + Math.max(lastRaise, bigBlind);
+  return roundChips(currentBet + Math.max(lastRaise, bigBlind));
 }
 
 /**
- * Validate if a bet amount is legal
- * @param amount - Bet amount
+ * Validate if a raise amount is legal
+ * @param amount - Total bet the player is raising to
  * @param player - Player making the bet
  * @param currentBet - Current bet to match
- * @param minRaise - Minimum raise amount
+ * @param minRaise - Minimum total bet for a raise
  * @returns Validation result with error message if invalid
  */
 export function validateBetAmount(
@@ -31,19 +44,93 @@ export function validateBetAmount(
   currentBet: number,
   minRaise: number
 ): { valid: boolean; error?: string } {
+  const allInAmount = roundChips(player.stack + player.currentBet);
+
   // Can't bet more than you have
-  if (amount > player.stack) {
+  if (amount > allInAmount) {
     return { valid: false, error: 'Bet exceeds stack size' };
   }
 
-  // If raising, must meet minimum raise
-  if (amount > currentBet && amount < minRaise && amount < player.stack) {
+  // A raise has to be bigger than the current bet
+  if (amount <= currentBet) {
+    return { valid: false, error: `Raise must be more than the current bet of ${currentBet}` };
+  }
+
+  // Must meet minimum raise unless going all-in
+  if (amount < minRaise && amount < allInAmount) {
     return { valid: false, error: `Minimum raise is ${minRaise}` };
   }
 
   return { valid: true };
 }
 
+/**
+ * Get the legal actions for the player whose turn it is
+ * An all-in for less than a full raise does not reopen the betting: a player
+ * who has already acted may only raise again once the bet has gone up by a
+ * full raise since their last action
+ * @param state - Current game state
+ * @returns Legal actions and raise limits
+ */
+export function getLegalActions(state: GameState): LegalActions {
+  const player = state.players[state.currentPlayerIndex];
+  const toCall = roundChips(Math.max(0, state.currentBet - player.currentBet));
+  const callAmount = Math.min(toCall, player.stack);
+  const maxRaiseTo = roundChips(player.stack + player.currentBet);
+
+  // Raising only makes sense if someone else can still put chips in
+  const opponentsAbleToAct = state.players.some(
+    p => p.position !== player.position && !p.isFolded && !p.isAllIn
+  );
+  const actionReopened = !player.hasActed || player.currentBet < state.lastFullBet;
+
+  return {
+    canFold: true,
+    canCheck: toCall === 0,
+    canCall: toCall > 0,
+    callAmount,
+    canRaise: player.stack > toCall && opponentsAbleToAct && actionReopened,
+    minRaiseTo: Math.min(roundChips(state.currentBet + state.lastRaiseSize), maxRaiseTo),
+    maxRaiseTo,
+  };
+}
+
+/**
+ * Check an action against the legal actions for the player to act
+ * @param state - Current game state
+ * @param action - Action to check
+ * @returns Validation result with error message if invalid
+ */
+export function validateAction(
+  state: GameState,
+  action: BetAction
+): { valid: boolean; error?: string } {
+  const legal = getLegalActions(state);
+  const player = state.players[state.currentPlayerIndex];
+
+  switch (action.type) {
+    case 'fold':
+      return { valid: true };
+    case 'check':
+      return legal.canCheck ? { valid: true } : { valid: false, error: 'Cannot check facing a bet' };
+    case 'call':
+      return legal.canCall ? { valid: true } : { valid: false, error: 'Nothing to call' };
+    case 'raise':
+      if (!legal.canRaise) {
+        return { valid: false, error: 'Raising is not allowed here' };
+      }
+      return validateBetAmount(action.amount ?? 0, player, state.currentBet, legal.minRaiseTo);
+    case 'all-in':
+      // Going all-in is a call for less, or a raise that has to be allowed
+      if (player.stack <= legal.callAmount || legal.canRaise) {
+        return { valid: true };
+      }
+      return { valid: false, error: 'Raising is not allowed here' };
+    default:
+      return { valid: false, error: `Unknown action ${action.type}` };
+  }
+}
+
 /**
  * Check if player can check (no bet to call)
  * @param player - Player attempting to check
@@ -61,7 +148,7 @@ export function canCheck(player: Player, currentBet: number): boolean {
  * @returns Amount needed to call
  */
 export function getCallAmount(player: Player, currentBet: number): number {
-  return Math.min(currentBet - player.currentBet, player.stack);
+  return Math.min(roundChips(currentBet - player.currentBet), player.stack);
 }
 
 /**
@@ -76,11 +163,11 @@ export function isBettingRoundComplete(players: Player[], currentBet: number): b
   // If no active players remain (all folded or all-in), round is complete
   if (activePlayers.length === 0) return true;
 
-  // If only one active player remains, round is complete
-  if (activePlayers.length === 1) return true;
+  // If only one active player remains, they only need to have matched any all-in bet
+  if (activePlayers.length === 1) return activePlayers[0].currentBet >= currentBet;
 
-  // All active players must have matched the current bet
-  return activePlayers.every(p => p.currentBet === currentBet);
+  // All active players must have acted and matched the current bet
+  return activePlayers.every(p => p.hasActed && p.currentBet === currentBet);
 }
 
 /**
@@ -218,11 +305,7 @@ export function getFirstPreFlopPlayer(playerCount: number, bigBlindIndex: number
  * @returns Index of first player to act
  */
 export function getFirstPostFlopPlayer(playerCount: number, dealerIndex: number): number {
-  if (playerCount === 2) {
-    // Heads up: dealer acts first post-flop
-    return dealerIndex;
-  }
-
+  // Heads up the dealer (small blind) acts last post-flop, same as at a full table
   return (dealerIndex + 1) % playerCount;
 }
 
@@ -231,14 +314,16 @@ export function getFirstPostFlopPlayer(playerCount: number, dealerIndex: number)
  * @param minBB - Minimum big blinds (default: 30)
  * @param maxBB - Maximum big blinds (default: 200)
  * @param bigBlind - Big blind amount
+ * @param random - Random source (default: Math.random)
  * @returns Random stack size
  */
 export function generateRandomStack(
   minBB: number = 30,
   maxBB: number = 200,
-  bigBlind: number = 1
+  bigBlind: number = 1,
+  random: RandomSource = Math.random
 ): number {
-  const bbCount = Math.floor(Math.random() * (maxBB - minBB + 1)) + minBB;
+  const bbCount = Math.floor(random() * (maxBB - minBB + 1)) + minBB;
   return bbCount * bigBlind;
 }
 
@@ -253,30 +338,158 @@ export function isHandOver(players: Player[]): boolean {
 }
 
 /**
- * Determine winner(s) from active players
+ * Order players by seat starting left of the dealer button
  * @param players - All players
- * @param evaluations - Hand evaluations for each player
- * @returns Winner position(s)
+ * @param dealerIndex - Dealer button index
+ * @returns Players in odd-chip order
  */
-export function determineWinner(
-  players: Player[],
-  evaluations: Map<PlayerPosition, any>
-): PlayerPosition[] {
-  const activePlayers = getActivePlayers(players);
+function orderFromButton(players: Player[], dealerIndex: number): Player[] {
+  return players.map((_, offset) => players[(dealerIndex + 1 + offset) % players.length]);
+}
 
-  if (activePlayers.length === 1) {
-    return [activePlayers[0].position];
+/**
+ * Round a chip amount to avoid floating point noise
+ * @param amount - Chip amount
+ * @returns Amount rounded to cents
+ */
+export function roundChips(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split a pot evenly between winners
+ * Odd chips go one at a time to the winners in the order given
+ * @param amount - Pot amount
+ * @param winners - Winner positions, first to the left of the button first
+ * @param chipUnit - Smallest chip denomination
+ * @returns Amount won by each winner
+ */
+export function splitPot(
+  amount: number,
+  winners: PlayerPosition[],
+  chipUnit: number
+): Map<PlayerPosition, number> {
+  const payouts = new Map<PlayerPosition, number>();
+  if (winners.length === 0) return payouts;
+
+  const totalChips = Math.floor(amount / chipUnit + 1e-9);
+  const share = Math.floor(totalChips / winners.length);
+  let oddChips = totalChips - share * winners.length;
+
+  // Anything smaller than one chip (e.g. from antes) goes with the odd chips
+  let dust = roundChips(amount - totalChips * chipUnit);
+
+  for (const winner of winners) {
+    const extra = oddChips > 0 ? 1 : 0;
+    oddChips -= extra;
+    payouts.set(winner, roundChips((share + extra) * chipUnit + dust));
+    dust = 0;
   }
 
-  // Compare hand evaluations
-  // This is simplified - actual implementation would use compareHands from handEvaluator
-  const activeWithEvals = activePlayers.map(p => ({
-    position: p.position,
-    evaluation: evaluations.get(p.position),
+  return payouts;
+}
+
+/**
+ * Resolve the hand and award every pot
+ * Each pot goes to the best hand among the players eligible for it (ranked
+ * with compareHands); tied winners split it with odd chips going to the first
+ * winner left of the button
+ * @param players - All players (stacks before the pots are awarded)
+ * @param communityCards - Final board
+ * @param pots - Main pot and side pots (see buildPots)
+ * @param dealerIndex - Dealer button index
+ * @param chipUnit - Smallest chip denomination (default: 0.5)
+ * @returns Players with the pots credited and the hand result
+ */
+export function resolveShowdown(
+  players: Player[],
+  communityCards: Card[],
+  pots: Pot[],
+  dealerIndex: number,
+  chipUnit: number = 0.5
+): { players: Player[]; result: HandResult } {
+  const contenders = orderFromButton(players, dealerIndex).filter(p => !p.isFolded);
+  const isShowdown = contenders.length > 1;
+
+  const evaluations = new Map<PlayerPosition, HandEvaluation>();
+  for (const player of contenders) {
+    const cards = [...player.holeCards, ...communityCards];
+    if (cards.length >= 5) {
+      evaluations.set(player.position, evaluateHand(cards));
+    }
+  }
+
+  const payouts = new Map<PlayerPosition, number>();
+  const potResults: PotResult[] = pots.map(pot => {
+    const eligible = contenders.filter(p => pot.eligiblePlayers.includes(p.position));
+    const winners = findBestPlayers(eligible, evaluations);
+
+    splitPot(pot.total, winners, chipUnit).forEach((amount, position) => {
+      payouts.set(position, roundChips((payouts.get(position) ?? 0) + amount));
+    });
+
+    return { pot, winners };
+  });
+
+  // The main pot winner is reported as the hand winner
+  const mainWinners = potResults[0]?.winners ?? contenders.slice(0, 1).map(p => p.position);
+
+  const updatedPlayers = players.map(player => ({
+    ...player,
+    stack: roundChips(player.stack + (payouts.get(player.position) ?? 0)),
+    currentBet: 0,
   }));
 
-  // Find best hand (simplified - actual implementation would be more complex)
-  return [activeWithEvals[0].position];
+  const netResults = new Map<PlayerPosition, number>(
+    updatedPlayers.map(p => [p.position, roundChips(p.stack - p.startingStack)])
+  );
+
+  const allPlayerHands = new Map<PlayerPosition, Card[]>(
+    isShowdown ? contenders.map(p => [p.position, p.holeCards]) : []
+  );
+
+  return {
+    players: updatedPlayers,
+    result: {
+      winner: mainWinners[0],
+      winners: mainWinners,
+      winningHand: evaluations.get(mainWinners[0]) ?? null,
+      potAmount: roundChips(pots.reduce((sum, pot) => sum + pot.total, 0)),
+      potResults,
+      payouts,
+      netResults,
+      allPlayerHands,
+    },
+  };
+}
+
+/**
+ * Find the best hand(s) among a group of players
+ * @param players - Players in odd-chip order
+ * @param evaluations - Hand evaluations by position
+ * @returns Positions of the best hand(s), in the order given
+ */
+function findBestPlayers(
+  players: Player[],
+  evaluations: Map<PlayerPosition, HandEvaluation>
+): PlayerPosition[] {
+  if (players.length <= 1) return players.map(p => p.position);
+
+  let best = evaluations.get(players[0].position)!;
+  let winners = [players[0].position];
+
+  for (const player of players.slice(1)) {
+    const evaluation = evaluations.get(player.position)!;
+    const comparison = compareHands(evaluation, best);
+    if (comparison > 0) {
+      best = evaluation;
+      winners = [player.position];
+    } else if (comparison === 0) {
+      winners.push(player.position);
+    }
+  }
+
+  return winners;
 }
 
 /**
@@ -312,7 +525,7 @@ export function processPlayerAction(
   player: Player,
   gameState: GameState
 ): { updatedPlayer: Player; potIncrease: number; newCurrentBet: number } {
-  let updatedPlayer = { ...player };
+  const updatedPlayer = { ...player, hasActed: true };
   let potIncrease = 0;
   let newCurrentBet = gameState.currentBet;
 
@@ -326,12 +539,10 @@ export function processPlayerAction(
       break;
 
     case 'call': {
-      const callAmount = Math.min(
-        gameState.currentBet - player.currentBet,
-        player.stack
-      );
-      updatedPlayer.stack -= callAmount;
-      updatedPlayer.currentBet += callAmount;
+      const callAmount = getCallAmount(player, gameState.currentBet);
+      updatedPlayer.stack = roundChips(updatedPlayer.stack - callAmount);
+      updatedPlayer.currentBet = roundChips(updatedPlayer.currentBet + callAmount);
+      updatedPlayer.totalContribution = roundChips(updatedPlayer.totalContribution + callAmount);
       potIncrease = callAmount;
 
       if (updatedPlayer.stack === 0) {
@@ -341,12 +552,13 @@ export function processPlayerAction(
     }
 
     case 'raise': {
-      const raiseAmount = Math.min(action.amount || 0, player.stack);
-      const totalBet = raiseAmount;
-      const additionalAmount = totalBet - player.currentBet;
+      // Amount is the total bet for the round, capped at going all-in
+      const totalBet = roundChips(Math.min(action.amount || 0, player.stack + player.currentBet));
+      const additionalAmount = roundChips(totalBet - player.currentBet);
 
-      updatedPlayer.stack -= additionalAmount;
+      updatedPlayer.stack = roundChips(updatedPlayer.stack - additionalAmount);
       updatedPlayer.currentBet = totalBet;
+      updatedPlayer.totalContribution = roundChips(updatedPlayer.totalContribution + additionalAmount);
       potIncrease = additionalAmount;
       newCurrentBet = totalBet;
 
@@ -359,7 +571,8 @@ export function processPlayerAction(
     case 'all-in': {
       const allInAmount = player.stack;
       updatedPlayer.stack = 0;
-      updatedPlayer.currentBet += allInAmount;
+      updatedPlayer.currentBet = roundChips(updatedPlayer.currentBet + allInAmount);
+      updatedPlayer.totalContribution = roundChips(updatedPlayer.totalContribution + allInAmount);
       updatedPlayer.isAllIn = true;
       potIncrease = allInAmount;
 
@@ -381,9 +594,12 @@ export function processPlayerAction(
 export function resetPlayersForNewHand(players: Player[]): Player[] {
   return players.map(player => ({
     ...player,
+    startingStack: player.stack,
     holeCards: [],
     currentBet: 0,
+    totalContribution: 0,
     isFolded: false,
     isAllIn: false,
+    hasActed: false,
   }));
 }
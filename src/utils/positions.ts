@@ -0,0 +1,56 @@
+/**
+ * Named table positions (UTG, MP, HJ, CO, BTN, SB, BB) for any table size
+ */
+
+import type { TablePosition } from '../types';
+
+/**
+ * Names for the seats between the big blind and the button, indexed by how many there are
+ * Seats are named back from the button, so CO and HJ exist whenever the table is big enough
+ */
+const SEATS_BEFORE_BUTTON: TablePosition[][] = [
+  [],
+  ['CO'],
+  ['HJ', 'CO'],
+  ['UTG', 'HJ', 'CO'],
+  ['UTG', 'MP', 'HJ', 'CO'],
+  ['UTG', 'UTG+1', 'MP', 'HJ', 'CO'],
+  ['UTG', 'UTG+1', 'UTG+2', 'MP', 'HJ', 'CO'],
+];
+
+/**
+ * Get the named position of every seat for a hand
+ * Heads up the button posts the small blind and is labelled BTN
+ * @param playerCount - Number of players dealt in
+ * @param dealerIndex - Dealer button index
+ * @returns Positions indexed like the players array
+ */
+export function getTablePositions(playerCount: number, dealerIndex: number): TablePosition[] {
+  if (playerCount < 2 || playerCount > SEATS_BEFORE_BUTTON.length + 2) {
+    throw new Error(`No table positions for ${playerCount} players`);
+  }
+
+  // Order of seats starting with the button and going clockwise
+  const fromButton: TablePosition[] = playerCount === 2
+    ? ['BTN', 'BB']
+    : ['BTN', 'SB', 'BB', ...SEATS_BEFORE_BUTTON[playerCount - 3]];
+
+  return Array.from(
+    { length: playerCount },
+    (_, index) => fromButton[(index - dealerIndex + playerCount) % playerCount]
+  );
+}
+
+/**
+ * Get the named position of a single seat
+ * @param playerIndex - Player index
+ * @param dealerIndex - Dealer button index
+ * @param playerCount - Number of players dealt in
+ */
+export function getTablePosition(
+  playerIndex: number,
+  dealerIndex: number,
+  playerCount: number
+): TablePosition {
+  return getTablePositions(playerCount, dealerIndex)[playerIndex];
+}
@@ -0,0 +1,85 @@
+/**
+ * Seedable pseudo-random numbers so hands can be replayed exactly
+ */
+
+import type { RandomSource } from '../types';
+
+/**
+ * Create a seeded random source (mulberry32)
+ * @param seed - 32-bit seed
+ * @returns Function returning numbers in [0, 1), same sequence for the same seed
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive an independent seed from a parent seed and some salts
+ * (e.g. session seed + hand number, hand seed + action index)
+ * @param seed - Parent seed
+ * @param salts - Values that identify the child stream
+ * @returns New 32-bit seed
+ */
+export function deriveSeed(seed: number, ...salts: number[]): number {
+  let hash = seed >>> 0;
+
+  for (const salt of salts) {
+    hash = Math.imul(hash ^ (salt >>> 0), 0x9e3779b1);
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Generate a fresh seed
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Format a seed for display and sharing (e.g., "1A2B3C4D")
+ */
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+}
+
+/**
+ * Parse a seed typed in by the user
+ * @param text - Seed as shown by formatSeed
+ * @returns Seed, or null if the text is not a valid seed
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^[0-9a-fA-F]{1,8}$/.test(trimmed)) return null;
+  return parseInt(trimmed, 16) >>> 0;
+}
+
+/**
+ * Shuffle a copy of an array using Fisher-Yates
+ * @param items - Items to shuffle
+ * @param random - Random source (default: Math.random)
+ */
+export function shuffleArray<T>(items: T[], random: RandomSource = Math.random): T[] {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
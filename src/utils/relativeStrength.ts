@@ -0,0 +1,192 @@
+/**
+ * Relative hand strength
+ * Ranks the hero's made hand against every two cards an opponent could hold
+ * on this board ("3rd nuts", "beats 78% of hands") and names it the way
+ * players do ("top pair, 2nd kicker")
+ */
+
+import type { Card, HandEvaluation, Rank, RelativeStrength } from '../types';
+import { getRankValue } from './deckUtils';
+import { evaluateHand } from './handEvaluator';
+import { encodeCards, rankCodes } from './handRank';
+
+/**
+ * Rank the hero's hand against all possible opponent holdings
+ * @param heroCards - Hero's hole cards
+ * @param communityCards - Flop, turn or river (3-5 cards)
+ * @returns Nut rank, share of holdings beaten and a readable name for the hand
+ */
+export function getRelativeStrength(heroCards: Card[], communityCards: Card[]): RelativeStrength {
+  if (heroCards.length !== 2) {
+    throw new Error('Relative strength needs two hole cards');
+  }
+  if (communityCards.length < 3 || communityCards.length > 5) {
+    throw new Error('Relative strength needs a flop, turn or river');
+  }
+
+  const evaluation = evaluateHand([...heroCards, ...communityCards]);
+  const boardCodes = encodeCards(communityCards);
+  const deadCodes = [...encodeCards(heroCards), ...boardCodes];
+  const unseen: number[] = [];
+  for (let code = 0; code < 52; code++) {
+    if (!deadCodes.includes(code)) unseen.push(code);
+  }
+
+  const hand = new Int32Array(2 + boardCodes.length);
+  hand.set(boardCodes, 2);
+  const betterRanks = new Set<number>();
+  let beats = 0;
+  let ties = 0;
+  let loses = 0;
+
+  for (let i = 0; i < unseen.length; i++) {
+    for (let j = i + 1; j < unseen.length; j++) {
+      hand[0] = unseen[i];
+      hand[1] = unseen[j];
+      const handRank = rankCodes(hand);
+      if (handRank > evaluation.value) {
+        loses++;
+        betterRanks.add(handRank);
+      } else if (handRank === evaluation.value) {
+        ties++;
+      } else {
+        beats++;
+      }
+    }
+  }
+
+  const nutRank = betterRanks.size + 1;
+  const nutLabel = nutRank === 1 ? 'the nuts' : `${getOrdinal(nutRank)} nuts`;
+  const percentile = Math.round(((beats + ties / 2) / (beats + ties + loses)) * 100);
+  const madeHand = describeMadeHand(heroCards, communityCards, evaluation);
+
+  return {
+    nutRank,
+    nutLabel,
+    madeHand,
+    percentile,
+    beats,
+    ties,
+    loses,
+    summary: `${madeHand} - ${nutLabel}, beats ${percentile}% of hands`,
+  };
+}
+
+/**
+ * Name a made hand relative to the board (e.g. "Overpair", "Set of 7s",
+ * "Top pair, 2nd kicker")
+ * @param heroCards - Hero's hole cards
+ * @param communityCards - Board cards
+ * @param evaluation - Hero's best hand from evaluateHand
+ */
+export function describeMadeHand(
+  heroCards: Card[],
+  communityCards: Card[],
+  evaluation: HandEvaluation
+): string {
+  const usesHoleCard = heroCards.some(hole =>
+    evaluation.cards.some(card => card.rank === hole.rank && card.suit === hole.suit)
+  );
+  if (!usesHoleCard) return `${evaluation.description} (playing the board)`;
+
+  const [first, second] = heroCards;
+  const isPocketPair = first.rank === second.rank;
+  const boardRanks = communityCards.map(card => card.rank);
+  const pairedHoleCards = heroCards.filter(card => boardRanks.includes(card.rank));
+  const boardIsPaired = new Set(boardRanks).size < boardRanks.length;
+
+  switch (evaluation.ranking) {
+    case 'pair':
+      if (isPocketPair) return describePocketPair(first.rank, boardRanks);
+      if (pairedHoleCards.length === 1) {
+        return describeBoardPair(pairedHoleCards[0], heroCards, boardRanks, evaluation);
+      }
+      return evaluation.description;
+
+    case 'two-pair':
+      if (pairedHoleCards.length === 2 && !isPocketPair) {
+        const topTwo = getDistinctRanks(boardRanks).slice(0, 2);
+        return heroCards.every(card => topTwo.includes(card.rank)) ? 'Top two pair' : 'Two pair';
+      }
+      // One pair is the hero's, the other is on the board
+      if (boardIsPaired && isPocketPair) {
+        return `${describePocketPair(first.rank, boardRanks)} on a paired board`;
+      }
+      if (boardIsPaired && pairedHoleCards.length === 1) {
+        const pairPosition = getPairPosition(pairedHoleCards[0].rank, boardRanks);
+        return `${pairPosition} on a paired board`;
+      }
+      return evaluation.description;
+
+    case 'three-of-a-kind':
+      if (isPocketPair) return `Set of ${first.rank}s`;
+      if (pairedHoleCards.length === 1) return `Trips, ${pairedHoleCards[0].rank}s`;
+      return evaluation.description;
+
+    default:
+      return evaluation.description;
+  }
+}
+
+function describePocketPair(rank: Rank, boardRanks: Rank[]): string {
+  const value = getRankValue(rank);
+  const boardValues = boardRanks.map(getRankValue);
+  if (value > Math.max(...boardValues)) return 'Overpair';
+  if (value < Math.min(...boardValues)) return 'Underpair';
+  return 'Middle pocket pair';
+}
+
+/**
+ * One hole card pairs the board: name the pair and grade the other card as a kicker
+ */
+function describeBoardPair(
+  pairedCard: Card,
+  heroCards: Card[],
+  boardRanks: Rank[],
+  evaluation: HandEvaluation
+): string {
+  const pairPosition = getPairPosition(pairedCard.rank, boardRanks);
+  const kicker = heroCards.find(card => card !== pairedCard)!;
+  const kickerPlays = evaluation.cards.some(
+    card => card.rank === kicker.rank && card.suit === kicker.suit
+  );
+  if (!kickerPlays) return `${pairPosition}, kicker doesn't play`;
+
+  // Better kickers are higher ranks that would not pair the board or the hero's card
+  const kickerValue = getRankValue(kicker.rank);
+  const betterKickers = ALL_RANKS.filter(
+    rank =>
+      getRankValue(rank) > kickerValue && rank !== pairedCard.rank && !boardRanks.includes(rank)
+  ).length;
+
+  return betterKickers === 0
+    ? `${pairPosition}, top kicker`
+    : `${pairPosition}, ${getOrdinal(betterKickers + 1)} kicker`;
+}
+
+function getPairPosition(rank: Rank, boardRanks: Rank[]): string {
+  const distinct = getDistinctRanks(boardRanks);
+  const index = distinct.indexOf(rank);
+  if (index > 0 && index === distinct.length - 1) return 'Bottom pair';
+  return PAIR_POSITIONS[index];
+}
+
+const PAIR_POSITIONS = ['Top pair', 'Second pair', 'Third pair', 'Fourth pair'];
+
+/**
+ * Board ranks without duplicates, highest first
+ */
+function getDistinctRanks(ranks: Rank[]): Rank[] {
+  return Array.from(new Set(ranks)).sort((a, b) => getRankValue(b) - getRankValue(a));
+}
+
+const ALL_RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+
+/**
+ * 1 -> "1st", 2 -> "2nd", 13 -> "13th", 22 -> "22nd"
+ */
+function getOrdinal(n: number): string {
+  const teen = n % 100 >= 11 && n % 100 <= 13;
+  const suffix = teen ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
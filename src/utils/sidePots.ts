@@ -0,0 +1,131 @@
+/**
+ * Side pot utilities for multi-way all-ins
+ */
+
+import type { Player, PlayerPosition, Pot } from '../types';
+import { roundChips } from './pokerLogic';
+
+/**
+ * Split everything put in this hand into a main pot and side pots
+ * A new pot starts at every all-in level; only players who covered a level
+ * (and have not folded) or who are not all-in are eligible to win it
+ * @param players - All players with their total contributions
+ * @returns Pots in order, main pot first
+ */
+export function buildPots(players: Player[]): Pot[] {
+  const allInLevels = players
+    .filter(p => p.isAllIn && !p.isFolded)
+    .map(p => p.totalContribution);
+  const maxContribution = Math.max(0, ...players.map(p => p.totalContribution));
+
+  const levels = Array.from(new Set([...allInLevels, maxContribution]))
+    .filter(level => level > 0)
+    .sort((a, b) => a - b);
+
+  const pots: Pot[] = [];
+  let previousLevel = 0;
+  // Dead money from levels before the first pot anyone can win, added to that pot
+  let deadMoney: Pot | null = null;
+
+  for (const level of levels) {
+    const contributions = new Map<PlayerPosition, number>();
+    let total = 0;
+
+    for (const player of players) {
+      const amount = roundChips(
+        Math.min(player.totalContribution, level) - Math.min(player.totalContribution, previousLevel)
+      );
+      if (amount > 0) {
+        contributions.set(player.position, amount);
+        total += amount;
+      }
+    }
+    previousLevel = level;
+    if (total <= 0) continue;
+
+    // Players still in with chips behind could have covered any level; a
+    // level can be above their contribution when it is dead money (e.g. a big blind ante)
+    const eligiblePlayers = players
+      .filter(p => !p.isFolded && (p.totalContribution >= level || !p.isAllIn))
+      .map(p => p.position);
+
+    const lastPot = pots[pots.length - 1] ?? null;
+    if (!lastPot && eligiblePlayers.length === 0) {
+      deadMoney ??= { total: 0, contributions: new Map(), eligiblePlayers };
+      mergeInto(deadMoney, total, contributions);
+    } else if (
+      lastPot &&
+      (eligiblePlayers.length === 0 || isSameSet(lastPot.eligiblePlayers, eligiblePlayers))
+    ) {
+      // Nothing new separates this level from the previous pot, so merge them
+      mergeInto(lastPot, total, contributions);
+    } else {
+      const pot: Pot = { total: roundChips(total), contributions, eligiblePlayers };
+      pots.push(deadMoney ? mergeInto(pot, deadMoney.total, deadMoney.contributions) : pot);
+      deadMoney = null;
+    }
+  }
+
+  // Nobody covered any level: whoever is still in takes it all
+  if (deadMoney) {
+    deadMoney.eligiblePlayers = players.filter(p => !p.isFolded).map(p => p.position);
+    pots.push(deadMoney);
+  }
+
+  return pots;
+}
+
+/**
+ * Return the part of the biggest bet this round that nobody called
+ * @param players - All players
+ * @returns Updated players and the refund (if any)
+ */
+export function returnUncalledBet(players: Player[]): {
+  players: Player[];
+  refund: { position: PlayerPosition; amount: number } | null;
+} {
+  const sortedBets = players.map(p => p.currentBet).sort((a, b) => b - a);
+  const [highestBet, secondBet = 0] = sortedBets;
+  const bettors = players.filter(p => p.currentBet === highestBet);
+
+  if (highestBet === 0 || bettors.length > 1 || highestBet === secondBet) {
+    return { players, refund: null };
+  }
+
+  const bettor = bettors[0];
+  const amount = roundChips(highestBet - secondBet);
+
+  const updatedPlayers = players.map(player => {
+    if (player.position !== bettor.position) return player;
+
+    const stack = roundChips(player.stack + amount);
+    return {
+      ...player,
+      stack,
+      currentBet: roundChips(player.currentBet - amount),
+      totalContribution: roundChips(player.totalContribution - amount),
+      isAllIn: stack === 0,
+    };
+  });
+
+  return { players: updatedPlayers, refund: { position: bettor.position, amount } };
+}
+
+/**
+ * Add chips and the contributions behind them to a pot
+ * @returns The same pot
+ */
+function mergeInto(pot: Pot, total: number, contributions: Map<PlayerPosition, number>): Pot {
+  pot.total = roundChips(pot.total + total);
+  contributions.forEach((amount, position) => {
+    pot.contributions.set(position, roundChips((pot.contributions.get(position) ?? 0) + amount));
+  });
+  return pot;
+}
+
+/**
+ * Check if two position lists hold the same players
+ */
+function isSameSet(a: PlayerPosition[], b: PlayerPosition[]): boolean {
+  return a.length === b.length && a.every(position => b.includes(position));
+}